@@ -563,10 +563,24 @@ export default function VODLibrary() {
                     {file.status === 'processing' || file.status === 'recording' ? (
                       <div className="flex items-center gap-2 text-yellow-400">
                         <Loader2 className="w-5 h-5 animate-spin" />
-                        <span>{file.status === 'recording' ? 'Recording...' : 'Processing...'}</span>
+                        <span>
+                          {file.status === 'recording'
+                            ? (file.source_stream_id ? 'Recording live stream...' : 'Recording...')
+                            : (file.source_stream_id ? 'Preparing replay...' : 'Processing...')}
+                        </span>
                       </div>
                     ) : (
-                      <span className="text-red-400">Failed</span>
+                      <span className="text-red-400" title={file.error || undefined}>Failed</span>
+                    )}
+                  </div>
+                )}
+
+                {/* Replay badges */}
+                {file.source_stream_id && (
+                  <div className="absolute top-2 left-2 flex gap-1">
+                    <span className="px-2 py-1 bg-red-600/90 rounded text-xs font-medium">Replay</span>
+                    {file.status === 'ready' && file.is_published === false && (
+                      <span className="px-2 py-1 bg-gray-700/90 rounded text-xs">Unpublished</span>
                     )}
                   </div>
                 )}
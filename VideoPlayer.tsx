@@ -12,7 +12,18 @@ import {
   Loader2,
   Cast,
   Airplay,
+  Clock,
+  Subtitles,
+  Gauge,
+  X,
 } from 'lucide-react';
+import {
+  EMBED_MESSAGE_SOURCE,
+  EmbedCommandName,
+  EmbedEventName,
+  EmbedPlayerState,
+  isEmbedMessage,
+} from './embedProtocol';
 
 interface VideoPlayerProps {
   streamKey: string;
@@ -24,8 +35,248 @@ interface VideoPlayerProps {
   isEmbed?: boolean;
   isVod?: boolean;
   isLinear?: boolean; // Linear TV mode - hides seek bar
+  captions?: CaptionTrack[]; // WebVTT sidecar files, mainly for VOD
+  previewThumbnailsUrl?: string; // WebVTT thumbnail track for seek bar previews (VOD only), else looked up by VOD id
+  embedAllowedOrigins?: string[]; // Host page origins the embed API answers; empty turns it off, ['*'] allows any
+}
+
+interface PreviewThumbnail {
+  start: number;
+  end: number;
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface CaptionTrack {
+  src: string;
+  label: string;
+  language: string;
+}
+
+interface CaptionStyle {
+  size: 'small' | 'medium' | 'large';
+  color: string;
+  background: 'none' | 'semi' | 'solid';
 }
 
+const DEFAULT_CAPTION_STYLE: CaptionStyle = { size: 'medium', color: '#ffffff', background: 'semi' };
+const CAPTION_SIZES = { small: '75%', medium: '100%', large: '150%' };
+const CAPTION_BACKGROUNDS = { none: 'transparent', semi: 'rgba(0, 0, 0, 0.6)', solid: 'rgb(0, 0, 0)' };
+const CAPTION_COLORS = ['#ffffff', '#facc15', '#22d3ee', '#4ade80'];
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// Resume positions: too early isn't worth offering, and close to the end the
+// viewer has finished (credits) and should start over next time
+const RESUME_MIN_SECONDS = 10;
+const RESUME_END_MARGIN_SECONDS = 30;
+const PROGRESS_SAVE_INTERVAL_MS = 10000;
+
+const isFinishedPosition = (position: number, duration: number): boolean =>
+  position >= duration - Math.max(RESUME_END_MARGIN_SECONDS, duration * 0.05);
+
+// Signed-in viewers' positions are kept server-side so they follow them
+// across devices; everyone's are also kept locally as a fallback
+const loadWatchProgress = async (vodId: string): Promise<{ position: number; duration: number | null } | null> => {
+  const token = localStorage.getItem('token');
+  if (token) {
+    try {
+      const res = await fetch(`/api/vod/${vodId}/progress`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (res.ok) {
+        const data = await res.json();
+        if (data.updated_at) {
+          return { position: data.position_seconds, duration: data.duration_seconds };
+        }
+      }
+    } catch (err) {
+      console.log('Failed to load watch progress:', err);
+    }
+  }
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(`vodProgress:${vodId}`) || 'null');
+    return saved ? { position: saved.position, duration: saved.duration } : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+const saveWatchProgress = (vodId: string, position: number, duration: number, keepalive = false) => {
+  // Finished videos are saved as position 0 so they start over
+  const finished = isFinishedPosition(position, duration);
+  if (finished) {
+    localStorage.removeItem(`vodProgress:${vodId}`);
+  } else {
+    localStorage.setItem(`vodProgress:${vodId}`, JSON.stringify({ position, duration, updatedAt: Date.now() }));
+  }
+
+  const token = localStorage.getItem('token');
+  if (token) {
+    fetch(`/api/vod/${vodId}/progress`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ position_seconds: finished ? 0 : position, duration_seconds: duration }),
+      keepalive, // Lets the last save go through while the page unloads
+    }).catch(() => {});
+  }
+};
+
+const SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: 'Space / K', action: 'Play / pause' },
+  { keys: 'J / L', action: 'Back / forward 10 seconds' },
+  { keys: '← / →', action: 'Back / forward 5 seconds' },
+  { keys: '↑ / ↓', action: 'Volume up / down' },
+  { keys: '0 – 9', action: 'Jump to 0% – 90%' },
+  { keys: 'F', action: 'Fullscreen' },
+  { keys: 'M', action: 'Mute' },
+  { keys: 'C', action: 'Captions on / off' },
+  { keys: '?', action: 'Show / hide shortcuts' },
+];
+
+// The saved style ends up in an injected <style>, so only values the menu
+// offers are accepted
+const loadCaptionStyle = (): CaptionStyle => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('captionStyle') || '{}') || {};
+    return {
+      size: Object.prototype.hasOwnProperty.call(CAPTION_SIZES, saved.size) ? saved.size : DEFAULT_CAPTION_STYLE.size,
+      color: CAPTION_COLORS.includes(saved.color) ? saved.color : DEFAULT_CAPTION_STYLE.color,
+      background: Object.prototype.hasOwnProperty.call(CAPTION_BACKGROUNDS, saved.background)
+        ? saved.background
+        : DEFAULT_CAPTION_STYLE.background,
+    };
+  } catch (err) {
+    return DEFAULT_CAPTION_STYLE;
+  }
+};
+
+const isMobileDevice = (): boolean =>
+  /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+
+// QoE beacons carry a session's running totals, so a lost one only delays
+// the numbers; the server keeps the largest value it has seen
+const QOE_BEACON_INTERVAL_MS = 30000;
+
+interface QoeSession {
+  sessionId: string;
+  playRequestedAt: number | null;
+  startupMs: number | null;
+  watchMs: number;
+  rebufferCount: number;
+  rebufferMs: number;
+  levelSwitches: number;
+  levelTimeMs: Record<string, number>; // Keyed by video height
+  fatalErrors: number;
+  lastError: string | null;
+}
+
+// crypto.randomUUID is only there on HTTPS pages
+const randomUuid = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.floor(Math.random() * 16);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+const createQoeSession = (): QoeSession => ({
+  sessionId: randomUuid(),
+  playRequestedAt: null,
+  startupMs: null,
+  watchMs: 0,
+  rebufferCount: 0,
+  rebufferMs: 0,
+  levelSwitches: 0,
+  levelTimeMs: {},
+  fatalErrors: 0,
+  lastError: null,
+});
+
+// Origin of the page embedding the player, for the embed API; null turns the
+// API off. Only an explicit '*' in the list lets any host in, and only then is
+// '*' returned when the browser won't say which host that is.
+const getEmbedParentOrigin = (allowedOrigins: string[]): string | null => {
+  if (window.parent === window || allowedOrigins.length === 0) return null;
+
+  const ancestors = (window.location as Location & { ancestorOrigins?: DOMStringList }).ancestorOrigins;
+  let origin: string | null = ancestors && ancestors.length > 0 ? ancestors[0] : null;
+  if (!origin && document.referrer) {
+    try {
+      origin = new URL(document.referrer).origin;
+    } catch (err) {
+      origin = null;
+    }
+  }
+
+  if (allowedOrigins.includes('*')) return origin || '*';
+  return origin && allowedOrigins.includes(origin) ? origin : null;
+};
+
+const parseVttTime = (text: string): number => {
+  const parts = text.trim().split(':').map(parseFloat);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Thumbnail tracks are WebVTT files whose cue text is an image URL, usually
+// a tile of a sprite sheet given as a #xywh= media fragment
+const parsePreviewThumbnails = (vtt: string, baseUrl: string): PreviewThumbnail[] => {
+  const thumbnails: PreviewThumbnail[] = [];
+  for (const block of vtt.replace(/\r/g, '').split('\n\n')) {
+    const lines = block.trim().split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || !lines[timingIndex + 1]) continue;
+
+    const [start, end] = lines[timingIndex].split('-->').map((t) => parseVttTime(t.trim().split(' ')[0]));
+    const [file, fragment] = lines[timingIndex + 1].trim().split('#xywh=');
+    const [x, y, width, height] = fragment ? fragment.split(',').map(Number) : [0, 0, 0, 0];
+    thumbnails.push({ start, end, url: new URL(file, baseUrl).href, x, y, width, height });
+  }
+  return thumbnails;
+};
+
+// How many segments behind live hls.js lets playback drift before jumping
+// back. Lifted while a viewer has scrubbed back into the DVR window.
+const LIVE_MAX_LATENCY_DURATION_COUNT = 4;
+
+// Low-latency mode: hls.js jumps ahead once latency passes this multiple of
+// the stream's target, and below that speeds playback up to catch up
+const LOW_LATENCY_MAX_LATENCY_FACTOR = 3;
+const LOW_LATENCY_MAX_PLAYBACK_RATE = 1.1;
+const DEFAULT_TARGET_LATENCY_SECONDS = 3;
+
+// WebRTC (WHEP) playback: how long negotiation and connecting may take
+// before falling back to HLS
+const WEBRTC_CONNECT_TIMEOUT_MS = 8000;
+const ICE_GATHERING_TIMEOUT_MS = 2000;
+
+// SRS's WHEP endpoint doesn't take trickled candidates, so the offer goes out
+// once gathering is done, or has had long enough to find the useful ones
+const waitForIceGathering = (pc: RTCPeerConnection): Promise<void> =>
+  new Promise((resolve) => {
+    if (pc.iceGatheringState === 'complete') {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    };
+    const onChange = () => {
+      if (pc.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    pc.addEventListener('icegatheringstatechange', onChange);
+  });
+
 export default function VideoPlayer({
   streamKey,
   hlsUrl,
@@ -36,11 +287,27 @@ export default function VideoPlayer({
   isEmbed = false,
   isVod = false,
   isLinear = false,
+  captions = [],
+  previewThumbnailsUrl,
+  embedAllowedOrigins = [],
 }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const hlsRef = useRef<Hls | null>(null);
   const controlsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isReconnectingRef = useRef(false);
+  const isScheduledRef = useRef(false);
+  const isOfflineRef = useRef(false); // Server says the stream isn't on air (offline, ended, no-show)
+  const dvrWindowRef = useRef(0);
+  const embedOriginRef = useRef<string | null>(null);
+  const embedReadyRef = useRef(false);
+  const embedApiRef = useRef<{
+    getState: () => EmbedPlayerState;
+    run: (command: EmbedCommandName, value?: number | string) => Promise<void>;
+  } | null>(null);
+  const qoeRef = useRef<QoeSession>(createQoeSession());
+  const liveStatusRef = useRef<'live' | 'reconnecting' | 'scheduled' | 'ended' | null>(null);
+  const playerIdRef = useRef(`player-${Math.random().toString(36).substring(2, 9)}`);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(muted);
@@ -64,6 +331,47 @@ export default function VideoPlayer({
   const [airPlayAvailable, setAirPlayAvailable] = useState(false);
   const [useTranscodedStream, setUseTranscodedStream] = useState<boolean | null>(null); // null = checking, true/false = checked
   const [streamCheckDone, setStreamCheckDone] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false); // Encoder dropped, server is holding the stream open
+  const [scheduledStart, setScheduledStart] = useState<string | null>(null); // Set while waiting for a scheduled stream
+  const [isNoShow, setIsNoShow] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [dvrWindow, setDvrWindow] = useState(0); // Seconds of live stream viewers can scrub back through
+  const [behindLive, setBehindLive] = useState(0);
+  const [lowLatency, setLowLatency] = useState<boolean | null>(null); // Per-stream opt-in, null until the status is known
+  const [targetLatency, setTargetLatency] = useState(DEFAULT_TARGET_LATENCY_SECONDS);
+  const [llHlsUnavailable, setLlHlsUnavailable] = useState(false); // Opted in, but the origin isn't serving LL-HLS
+  const [latency, setLatency] = useState<number | null>(null);
+  const [whepUrl, setWhepUrl] = useState<string | null>(null); // Set when the stream opts into WebRTC playback
+  const [webrtcFailed, setWebrtcFailed] = useState(false); // Negotiation or the connection failed, using HLS
+  const [textTracks, setTextTracks] = useState<{ index: number; label: string; language: string }[]>([]);
+  const [activeCaption, setActiveCaption] = useState(-1); // Index into video.textTracks, -1 = off
+  const [showCaptionMenu, setShowCaptionMenu] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [previewThumbnails, setPreviewThumbnails] = useState<PreviewThumbnail[]>([]);
+  const [seekPreview, setSeekPreview] = useState<{ percent: number; time: number } | null>(null);
+  const [resumePosition, setResumePosition] = useState<number | null>(null); // Offered until accepted or dismissed
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(loadCaptionStyle);
+
+  const formatCountdown = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const d = Math.floor(totalSeconds / 86400);
+    const time = formatTime(totalSeconds % 86400);
+    return d > 0 ? `${d}d ${time}` : time;
+  };
+
+  // Short clock format, e.g. 4:05 or 1:04:05
+  const formatClock = (seconds: number): string => {
+    const totalSeconds = Math.floor(seconds);
+    const h = Math.floor(totalSeconds / 3600);
+    const m = Math.floor((totalSeconds % 3600) / 60);
+    const s = totalSeconds % 60;
+    const mmss = `${m.toString().padStart(h > 0 ? 2 : 1, '0')}:${s.toString().padStart(2, '0')}`;
+    return h > 0 ? `${h}:${mmss}` : mmss;
+  };
+
+  const formatBehindLive = (seconds: number): string => `-${formatClock(seconds)}`;
 
   const formatTime = (seconds: number): string => {
     if (!isFinite(seconds) || isNaN(seconds)) return '00:00:00';
@@ -73,6 +381,34 @@ export default function VideoPlayer({
     return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
+  // Load seek bar previews for VOD. Pages that only have the VOD id, like the
+  // embed page, get the track's URL from the VOD record.
+  useEffect(() => {
+    setPreviewThumbnails([]);
+    if (!isVod || (!previewThumbnailsUrl && !streamKey)) return;
+
+    let cancelled = false;
+    const loadPreviews = async () => {
+      let url = previewThumbnailsUrl;
+      if (!url) {
+        const res = await fetch(`/api/vod/${streamKey}/previews`);
+        url = res.ok ? (await res.json()).previewThumbnailsUrl : null;
+      }
+      if (!url || cancelled) return;
+
+      const vttUrl = new URL(url, window.location.href).href;
+      const res = await fetch(vttUrl);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const vtt = await res.text();
+      if (!cancelled) setPreviewThumbnails(parsePreviewThumbnails(vtt, vttUrl));
+    };
+    loadPreviews().catch((err) => console.log('Preview thumbnails unavailable:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVod, streamKey, previewThumbnailsUrl]);
+
   // Check for AirPlay availability
   useEffect(() => {
     const video = videoRef.current;
@@ -112,15 +448,257 @@ export default function VideoPlayer({
     }
   };
 
-  // Track VOD view
+  // Track VOD view, and look up where this viewer left off
   useEffect(() => {
-    if (isVod && streamKey) {
-      // streamKey contains the VOD ID for VOD embeds
-      fetch(`/api/vod/${streamKey}/view`, { method: 'POST' }).catch(() => {});
-    }
+    if (!isVod || !streamKey) return;
+
+    // streamKey contains the VOD ID for VOD embeds
+    fetch(`/api/vod/${streamKey}/view`, { method: 'POST' }).catch(() => {});
+
+    let cancelled = false;
+    loadWatchProgress(streamKey).then((saved) => {
+      if (cancelled || !saved || saved.position < RESUME_MIN_SECONDS) return;
+      if (saved.duration && isFinishedPosition(saved.position, saved.duration)) return;
+      setResumePosition(saved.position);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVod, streamKey]);
+
+  // Save the watch position every so often while playing, on pause, and when
+  // the viewer leaves
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isVod || !streamKey || !video) return;
+
+    let lastSavedAt = 0;
+    const save = (keepalive = false) => {
+      if (!video.duration || !isFinite(video.duration) || video.currentTime < 1) return;
+      lastSavedAt = Date.now();
+      saveWatchProgress(streamKey, video.currentTime, video.duration, keepalive);
+    };
+    const handleTimeUpdate = () => {
+      if (!video.paused && Date.now() - lastSavedAt >= PROGRESS_SAVE_INTERVAL_MS) save();
+    };
+    const handlePause = () => save();
+    const handlePageHide = () => save(true);
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('ended', handlePause);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('ended', handlePause);
+      window.removeEventListener('pagehide', handlePageHide);
+      save(true);
+    };
   }, [isVod, streamKey]);
 
-  // Viewer tracking and count polling for live streams
+  // QoE: startup time, rebuffering and time at each quality for this
+  // playback session, sent as beacons while watching and when leaving.
+  // Level switches and fatal errors are counted in the hls.js handlers.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !streamKey) return;
+
+    const session = createQoeSession();
+    qoeRef.current = session;
+    let lastTickAt = Date.now();
+    let rebufferStartedAt: number | null = null;
+    // Autoplay counts from page load, so startup time includes loading the
+    // manifest and first segments
+    if (autoPlay) session.playRequestedAt = Date.now();
+
+    const handlePlay = () => {
+      if (session.playRequestedAt === null) session.playRequestedAt = Date.now();
+    };
+    const handlePlaying = () => {
+      const now = Date.now();
+      if (session.startupMs === null && session.playRequestedAt !== null) {
+        session.startupMs = now - session.playRequestedAt;
+      }
+      if (rebufferStartedAt !== null) {
+        session.rebufferMs += now - rebufferStartedAt;
+        rebufferStartedAt = null;
+      }
+      lastTickAt = now;
+    };
+    // Waiting for the first frame or for a seek isn't rebuffering
+    const handleWaiting = () => {
+      if (session.startupMs === null || video.seeking || rebufferStartedAt !== null) return;
+      session.rebufferCount++;
+      rebufferStartedAt = Date.now();
+    };
+
+    const tick = () => {
+      const now = Date.now();
+      if (!video.paused && rebufferStartedAt === null && session.startupMs !== null) {
+        const elapsed = now - lastTickAt;
+        const height = String(video.videoHeight || 0);
+        session.watchMs += elapsed;
+        session.levelTimeMs[height] = (session.levelTimeMs[height] || 0) + elapsed;
+      }
+      lastTickAt = now;
+    };
+
+    const send = (leaving: boolean) => {
+      tick();
+      if (session.playRequestedAt === null) return; // Never played, nothing to report
+
+      const quality = video.getVideoPlaybackQuality ? video.getVideoPlaybackQuality() : null;
+      const body = JSON.stringify({
+        sessionId: session.sessionId,
+        contentType: isVod ? 'vod' : 'live',
+        contentId: streamKey,
+        device: isMobileDevice() ? 'mobile' : 'desktop',
+        startupMs: session.startupMs,
+        watchMs: session.watchMs,
+        rebufferCount: session.rebufferCount,
+        rebufferMs: session.rebufferMs + (rebufferStartedAt !== null ? Date.now() - rebufferStartedAt : 0),
+        levelSwitches: session.levelSwitches,
+        levelTimeMs: session.levelTimeMs,
+        fatalErrors: session.fatalErrors,
+        lastError: session.lastError,
+        droppedFrames: quality ? quality.droppedVideoFrames : 0,
+        totalFrames: quality ? quality.totalVideoFrames : 0,
+      });
+
+      if (leaving && navigator.sendBeacon) {
+        navigator.sendBeacon('/api/qoe/beacons', new Blob([body], { type: 'application/json' }));
+      } else {
+        fetch('/api/qoe/beacons', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+        }).catch(() => {});
+      }
+    };
+
+    const tickInterval = setInterval(tick, 1000);
+    const beaconInterval = setInterval(() => send(false), QOE_BEACON_INTERVAL_MS);
+    const handlePageHide = () => send(true);
+
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('waiting', handleWaiting);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(tickInterval);
+      clearInterval(beaconInterval);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('waiting', handleWaiting);
+      window.removeEventListener('pagehide', handlePageHide);
+      send(true);
+    };
+  }, [streamKey, isVod]);
+
+  // Stop offering to resume once the viewer has been watching for a while
+  useEffect(() => {
+    if (resumePosition === null || !isPlaying) return;
+    const timer = setTimeout(() => setResumePosition(null), 15000);
+    return () => clearTimeout(timer);
+  }, [resumePosition, isPlaying]);
+
+  // Ask the server whether a live stream that stopped loading is reconnecting
+  // (encoder blip inside the grace window) or scheduled to start later,
+  // rather than over
+  const checkStreamStatus = async () => {
+    try {
+      const res = await fetch(`/api/streams/public/${streamKey}/status`);
+      applyStreamStatus(await res.json());
+    } catch (err) {
+      // Silently fail
+    }
+  };
+
+  // Status from the status endpoint or pushed over the viewer channel
+  const applyStreamStatus = (data: any) => {
+    const reconnecting = data.status === 'reconnecting';
+    isReconnectingRef.current = reconnecting;
+    setIsReconnecting(reconnecting);
+    const scheduled = data.status === 'scheduled';
+    isScheduledRef.current = scheduled;
+    setScheduledStart(scheduled ? data.scheduledStart : null);
+    isOfflineRef.current = data.status !== 'live' && !reconnecting && !scheduled;
+    setIsNoShow(data.status === 'no_show');
+    // Linear channels opt out of scrubbing
+    const dvrSeconds = isLinear ? 0 : data.dvrWindowSeconds || 0;
+    dvrWindowRef.current = dvrSeconds;
+    setDvrWindow(dvrSeconds);
+    setLowLatency(data.lowLatency === true);
+    setTargetLatency(data.targetLatencySeconds || DEFAULT_TARGET_LATENCY_SECONDS);
+    setWhepUrl(data.webrtc && data.whepUrl ? data.whepUrl : null);
+  };
+
+  useEffect(() => {
+    if (!isVod && streamKey) {
+      setLlHlsUnavailable(false);
+      setWebrtcFailed(false);
+      checkStreamStatus();
+    }
+  }, [streamKey, isVod, isLinear]);
+
+  const webrtcActive = !isVod && !mp4Url && !!whepUrl && !webrtcFailed && typeof RTCPeerConnection !== 'undefined';
+  const lowLatencyActive = !isVod && !webrtcActive && lowLatency === true && !llHlsUnavailable;
+  const lowLatencyActiveRef = useRef(lowLatencyActive);
+  lowLatencyActiveRef.current = lowLatencyActive;
+
+  // hls.js exposes the current latency; only shown in low-latency mode
+  useEffect(() => {
+    if (!lowLatencyActive) {
+      setLatency(null);
+      return;
+    }
+    const interval = setInterval(() => {
+      const hls = hlsRef.current;
+      setLatency(hls && isFinite(hls.latency) && hls.latency > 0 ? hls.latency : null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lowLatencyActive]);
+
+  // hls.js jumps back to live when playback drifts too far behind. Lifted
+  // while a viewer has scrubbed back into the DVR window.
+  const setLiveLatencyLimit = (limited: boolean) => {
+    const hls = hlsRef.current;
+    if (!hls) return;
+    hls.config.liveMaxLatencyDurationCount = limited ? LIVE_MAX_LATENCY_DURATION_COUNT : Infinity;
+    if (lowLatencyActiveRef.current) {
+      hls.config.liveMaxLatencyDuration = limited ? targetLatency * LOW_LATENCY_MAX_LATENCY_FACTOR : Infinity;
+    }
+  };
+
+  // Seekable part of a live stream: from the start of the DVR window (or of
+  // the playlist, if it is shorter) to the live edge hls.js plays at
+  const getLiveWindow = (): { start: number; end: number } | null => {
+    const video = videoRef.current;
+    if (!video || video.seekable.length === 0) return null;
+    const seekableEnd = video.seekable.end(video.seekable.length - 1);
+    const end = hlsRef.current?.liveSyncPosition ?? seekableEnd;
+    const start = Math.max(video.seekable.start(0), end - dvrWindowRef.current);
+    return end > start ? { start, end } : null;
+  };
+
+  // Within a few seconds of the target latency counts as live
+  const isAtLiveEdge = behindLive <= 3;
+
+  // Tick the "starting in" countdown while waiting for a scheduled stream
+  useEffect(() => {
+    if (!scheduledStart) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [scheduledStart]);
+
+  // Viewer tracking for live streams. The viewer channel (SSE) pushes the
+  // count and status changes, and being connected to it is the heartbeat.
+  // Whenever it isn't open, fall back to polling the count and posting
+  // heartbeats.
   useEffect(() => {
     if (isVod || !streamKey) return;
     
@@ -150,19 +728,54 @@ export default function VideoPlayer({
       }
     };
     
-    // Fetch count and send heartbeat immediately
-    fetchViewerCount();
-    sendHeartbeat();
-    
-    // Poll viewer count every 10 seconds
-    const countInterval = setInterval(fetchViewerCount, 10000);
-    
-    // Send heartbeat every 15 seconds to stay registered
-    const heartbeatInterval = setInterval(sendHeartbeat, 15000);
-    
+    let countInterval: ReturnType<typeof setInterval> | null = null;
+    let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+
+    const startPolling = () => {
+      if (countInterval) return;
+
+      // Fetch count and send heartbeat immediately
+      fetchViewerCount();
+      sendHeartbeat();
+
+      // Poll viewer count every 10 seconds
+      countInterval = setInterval(fetchViewerCount, 10000);
+
+      // Send heartbeat every 15 seconds to stay registered
+      heartbeatInterval = setInterval(sendHeartbeat, 15000);
+    };
+
+    const stopPolling = () => {
+      if (countInterval) clearInterval(countInterval);
+      if (heartbeatInterval) clearInterval(heartbeatInterval);
+      countInterval = null;
+      heartbeatInterval = null;
+    };
+
+    let channel: EventSource | null = null;
+    if (typeof EventSource !== 'undefined') {
+      channel = new EventSource(`/api/streams/public/${streamKey}/events?viewerId=${encodeURIComponent(viewerId)}`);
+      channel.onopen = stopPolling;
+      channel.onerror = () => {
+        // EventSource reconnects by itself unless the server refused outright
+        startPolling();
+        if (channel && channel.readyState === EventSource.CLOSED) {
+          channel.close();
+        }
+      };
+      channel.addEventListener('viewers', (e) => {
+        setViewerCount(JSON.parse((e as MessageEvent).data).viewers || 0);
+      });
+      channel.addEventListener('status', (e) => {
+        applyStreamStatus(JSON.parse((e as MessageEvent).data));
+      });
+    } else {
+      startPolling();
+    }
+
     return () => {
-      clearInterval(countInterval);
-      clearInterval(heartbeatInterval);
+      if (channel) channel.close();
+      stopPolling();
     };
   }, [streamKey, isVod]);
 
@@ -201,9 +814,107 @@ export default function VideoPlayer({
     return () => clearTimeout(timeoutId);
   }, [streamKey, isVod, hlsUrl]);
 
-  // Initialize HLS player - wait until stream check is done
+  // WebRTC playback for streams that opt into real-time latency: a recvonly
+  // peer connection negotiated with the WHEP endpoint. Anything going wrong,
+  // from the offer to the connection dropping, hands over to HLS for the rest
+  // of the session, which also picks up offline and reconnecting states.
+  useEffect(() => {
+    if (!videoRef.current || !webrtcActive || !whepUrl) return;
+
+    const video = videoRef.current;
+    const pc = new RTCPeerConnection();
+    const controller = new AbortController();
+    let resourceUrl: string | null = null;
+    let closed = false;
+
+    const fallBack = (reason: string) => {
+      if (closed) return;
+      console.log(`WebRTC playback failed (${reason}), using HLS`);
+      qoeRef.current.lastError = `webrtc: ${reason}`;
+      setWebrtcFailed(true);
+    };
+    const connectTimeout = setTimeout(() => fallBack('timed out'), WEBRTC_CONNECT_TIMEOUT_MS);
+
+    pc.addTransceiver('video', { direction: 'recvonly' });
+    pc.addTransceiver('audio', { direction: 'recvonly' });
+    const stream = new MediaStream();
+    pc.ontrack = (e) => stream.addTrack(e.track);
+    video.srcObject = stream;
+    setQualities([]); // One rendition, picked by the server
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'connected') {
+        clearTimeout(connectTimeout);
+        setError(null);
+        isReconnectingRef.current = false;
+        setIsReconnecting(false);
+        isScheduledRef.current = false;
+        setScheduledStart(null);
+        isOfflineRef.current = false;
+        setIsLive(true);
+        setIsLoading(false);
+        if (autoPlay) {
+          video.muted = muted;
+          video.play().then(() => {
+            setHasStarted(true);
+            setIsPlaying(true);
+          }).catch(() => {
+            video.muted = true;
+            setIsMuted(true);
+            video.play().then(() => {
+              setHasStarted(true);
+              setIsPlaying(true);
+            }).catch(() => {
+              setIsPlaying(false);
+              setHasStarted(false);
+            });
+          });
+        }
+      } else if (pc.connectionState === 'failed') {
+        // Also where a stream ends up when the broadcaster stops
+        fallBack('connection failed');
+      }
+    };
+
+    const negotiate = async () => {
+      await pc.setLocalDescription(await pc.createOffer());
+      await waitForIceGathering(pc);
+      const res = await fetch(whepUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/sdp' },
+        body: pc.localDescription!.sdp,
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new Error(`WHEP endpoint returned ${res.status}`);
+      const location = res.headers.get('Location');
+      if (location) {
+        resourceUrl = new URL(location, new URL(whepUrl, window.location.href)).href;
+      }
+      const answer = await res.text();
+      if (closed) return;
+      await pc.setRemoteDescription({ type: 'answer', sdp: answer });
+    };
+    negotiate().catch((err) => fallBack(err instanceof Error ? err.message : String(err)));
+
+    return () => {
+      closed = true;
+      clearTimeout(connectTimeout);
+      controller.abort();
+      pc.close();
+      video.srcObject = null;
+      // Let the server free the session rather than wait for it to time out
+      if (resourceUrl) {
+        fetch(resourceUrl, { method: 'DELETE', keepalive: true }).catch(() => {});
+      }
+    };
+  }, [streamKey, webrtcActive, whepUrl, autoPlay, muted]);
+
+  // Initialize HLS player - wait until stream check is done. Live streams
+  // start in normal mode rather than wait for the status; if it turns out the
+  // stream is low latency or WebRTC this runs again and switches over.
   useEffect(() => {
     if (!videoRef.current || !streamCheckDone) return;
+    if (webrtcActive) return;
 
     const video = videoRef.current;
 
@@ -233,7 +944,7 @@ export default function VideoPlayer({
 
     if (Hls.isSupported()) {
       // Detect mobile for aggressive optimization
-      const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+      const isMobile = isMobileDevice();
 
       const hlsConfig: Partial<Hls['config']> = {
         enableWorker: true,
@@ -267,16 +978,31 @@ export default function VideoPlayer({
         fragLoadingTimeOut: isMobile ? 10000 : 20000,
         manifestLoadingTimeOut: isMobile ? 8000 : 10000,
         levelLoadingTimeOut: isMobile ? 8000 : 10000,
+        // Subtitle renditions and in-band CEA-608/708 captions become native
+        // text tracks, so the CC menu handles them like sidecar files
+        enableWebVTT: true,
+        enableCEA708Captions: true,
+        renderTextTracksNatively: true,
       };
 
       if (isVod) {
         hlsConfig.lowLatencyMode = false;
         hlsConfig.liveDurationInfinity = false;
         hlsConfig.startLevel = -1; // Auto for VOD
+      } else if (lowLatencyActive) {
+        // LL-HLS partial segments and blocking playlist reloads, held at the
+        // stream's target latency by nudging the playback rate. hls.js won't
+        // take these alongside the *DurationCount settings.
+        hlsConfig.lowLatencyMode = true;
+        hlsConfig.liveSyncDuration = targetLatency;
+        hlsConfig.liveMaxLatencyDuration = targetLatency * LOW_LATENCY_MAX_LATENCY_FACTOR;
+        hlsConfig.maxLiveSyncPlaybackRate = LOW_LATENCY_MAX_PLAYBACK_RATE;
+        hlsConfig.liveDurationInfinity = true;
+        hlsConfig.liveBackBufferLength = 30;
       } else {
         hlsConfig.lowLatencyMode = false;
         hlsConfig.liveSyncDurationCount = 2; // Reduced for faster sync
-        hlsConfig.liveMaxLatencyDurationCount = 4;
+        hlsConfig.liveMaxLatencyDurationCount = LIVE_MAX_LATENCY_DURATION_COUNT;
         hlsConfig.liveDurationInfinity = true;
         hlsConfig.liveBackBufferLength = 30;
       }
@@ -284,6 +1010,17 @@ export default function VideoPlayer({
       const hls = new Hls(hlsConfig as any);
       hlsRef.current = hls;
 
+      // A target of a few seconds only works with partial segments; without
+      // them start over with the normal live settings
+      if (lowLatencyActive) {
+        hls.once(Hls.Events.LEVEL_LOADED, (_, data) => {
+          if (!data.details.partList || data.details.partList.length === 0) {
+            console.log('Stream is set to low latency but the playlist has no partial segments, using normal HLS');
+            setLlHlsUnavailable(true);
+          }
+        });
+      }
+
       hls.on(Hls.Events.MANIFEST_PARSED, (_, data) => {
         setIsLoading(false);
         setError(null);
@@ -314,9 +1051,15 @@ export default function VideoPlayer({
         }
       });
 
+      let initialLevelSwitched = false;
       hls.on(Hls.Events.LEVEL_SWITCHED, (_, data) => {
         // Only update currentQuality for internal tracking, never touch displayQuality
         setCurrentQuality(data.level);
+        // The first switch is hls.js picking a starting level
+        if (initialLevelSwitched) {
+          qoeRef.current.levelSwitches++;
+        }
+        initialLevelSwitched = true;
       });
 
       let networkErrorCount = 0;
@@ -324,10 +1067,29 @@ export default function VideoPlayer({
 
       hls.on(Hls.Events.ERROR, (_, data) => {
         if (data.fatal) {
+          // A live stream that is offline, scheduled or reconnecting fails to
+          // load because there is nothing to play, which isn't a playback
+          // failure, so it stays out of the QoE counts
+          const recordFatalError = () => {
+            if (!isVod && (isOfflineRef.current || isScheduledRef.current || isReconnectingRef.current)) return;
+            qoeRef.current.fatalErrors++;
+            qoeRef.current.lastError = `${data.type}: ${data.details}`;
+          };
           switch (data.type) {
             case Hls.ErrorTypes.NETWORK_ERROR:
               networkErrorCount++;
               console.log('HLS network error, retry ' + networkErrorCount + '/' + maxNetworkRetries);
+              if (!isVod) {
+                // Counted once the server has said whether the stream is still on air
+                checkStreamStatus().then(recordFatalError);
+              } else {
+                recordFatalError();
+              }
+              // Keep retrying for as long as the server says the stream is
+              // reconnecting or hasn't reached its scheduled start
+              if (isReconnectingRef.current || isScheduledRef.current) {
+                networkErrorCount = Math.min(networkErrorCount, maxNetworkRetries - 1);
+              }
               if (networkErrorCount < maxNetworkRetries) {
                 // Don't show error yet, just retry silently with increasing delay
                 const retryDelay = Math.min(1000 * networkErrorCount, 5000);
@@ -342,9 +1104,11 @@ export default function VideoPlayer({
               }
               break;
             case Hls.ErrorTypes.MEDIA_ERROR:
+              recordFatalError();
               hls.recoverMediaError();
               break;
             default:
+              recordFatalError();
               // For other errors, also retry a few times before giving up
               networkErrorCount++;
               if (networkErrorCount < 3) {
@@ -365,6 +1129,11 @@ export default function VideoPlayer({
         // Clear any error when we successfully load fragments
         networkErrorCount = 0;
         setError(null);
+        isReconnectingRef.current = false;
+        setIsReconnecting(false);
+        isScheduledRef.current = false;
+        setScheduledStart(null);
+        isOfflineRef.current = false;
         if (!isVod) {
           setIsLive(true);
         }
@@ -405,7 +1174,7 @@ export default function VideoPlayer({
         }
       });
     }
-  }, [streamKey, hlsUrl, mp4Url, autoPlay, muted, isVod, useTranscodedStream, streamCheckDone]);
+  }, [streamKey, hlsUrl, mp4Url, autoPlay, muted, isVod, useTranscodedStream, streamCheckDone, lowLatencyActive, targetLatency, webrtcActive]);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -425,6 +1194,13 @@ export default function VideoPlayer({
       setCurrentTime(formatTime(video.currentTime));
       if (isVod && video.duration) {
         setProgress((video.currentTime / video.duration) * 100);
+      } else if (!isVod && dvrWindowRef.current > 0) {
+        const liveWindow = getLiveWindow();
+        if (liveWindow) {
+          const position = Math.min(video.currentTime, liveWindow.end);
+          setBehindLive(liveWindow.end - position);
+          setProgress(((position - liveWindow.start) / (liveWindow.end - liveWindow.start)) * 100);
+        }
       }
     };
     const handleDurationChange = () => {
@@ -457,6 +1233,51 @@ export default function VideoPlayer({
     };
   }, [isVod]);
 
+  // Caption tracks come from <track> children, hls.js subtitle renditions and
+  // in-band captions, which only appear once caption data has been seen.
+  // video.textTracks is the one list covering all three.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const refreshTracks = () => {
+      const tracks: { index: number; label: string; language: string }[] = [];
+      let showing = -1;
+      for (let i = 0; i < video.textTracks.length; i++) {
+        const track = video.textTracks[i];
+        if (track.kind !== 'subtitles' && track.kind !== 'captions') continue;
+        tracks.push({ index: i, label: track.label || track.language || `Track ${tracks.length + 1}`, language: track.language });
+        if (track.mode === 'showing') showing = i;
+      }
+      setTextTracks(tracks);
+      setActiveCaption(showing);
+    };
+
+    // Turn on the language the viewer picked last time, once it shows up
+    const handleAddTrack = (e: TrackEvent) => {
+      const preferred = localStorage.getItem('captionLanguage');
+      const track = e.track;
+      if (track && preferred && preferred !== 'off' && (track.language || track.label) === preferred) {
+        for (let i = 0; i < video.textTracks.length; i++) {
+          if (video.textTracks[i] !== track && video.textTracks[i].mode === 'showing') return refreshTracks();
+        }
+        track.mode = 'showing';
+      }
+      refreshTracks();
+    };
+
+    video.textTracks.addEventListener('addtrack', handleAddTrack);
+    video.textTracks.addEventListener('removetrack', refreshTracks);
+    video.textTracks.addEventListener('change', refreshTracks);
+    refreshTracks();
+
+    return () => {
+      video.textTracks.removeEventListener('addtrack', handleAddTrack);
+      video.textTracks.removeEventListener('removetrack', refreshTracks);
+      video.textTracks.removeEventListener('change', refreshTracks);
+    };
+  }, []);
+
   useEffect(() => {
     const handleFullscreenChange = () => {
       setIsFullscreen(
@@ -503,6 +1324,8 @@ export default function VideoPlayer({
       if (isPlaying) {
         setShowControls(false);
         setShowQualityMenu(false);
+        setShowCaptionMenu(false);
+        setShowSpeedMenu(false);
       }
     }, 3000);
   }, [isPlaying]);
@@ -530,7 +1353,11 @@ export default function VideoPlayer({
   };
 
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newVolume = parseFloat(e.target.value);
+    changeVolume(parseFloat(e.target.value));
+  };
+
+  const changeVolume = (level: number) => {
+    const newVolume = Math.min(1, Math.max(0, level));
     if (videoRef.current) {
       videoRef.current.volume = newVolume;
       videoRef.current.muted = newVolume === 0;
@@ -544,9 +1371,94 @@ export default function VideoPlayer({
       const newTime = (parseFloat(e.target.value) / 100) * videoRef.current.duration;
       videoRef.current.currentTime = newTime;
       setProgress(parseFloat(e.target.value));
+    } else if (videoRef.current && dvrWindow > 0) {
+      const liveWindow = getLiveWindow();
+      if (!liveWindow) return;
+      const newTime = liveWindow.start + (parseFloat(e.target.value) / 100) * (liveWindow.end - liveWindow.start);
+      setLiveLatencyLimit(false);
+      videoRef.current.currentTime = newTime;
+      setBehindLive(liveWindow.end - newTime);
+      setProgress(parseFloat(e.target.value));
     }
   };
 
+  // Hovering the seek bar, or dragging along it, previews that point
+  const handleSeekBarPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!isVod || !video || !video.duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const percent = Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100));
+    setSeekPreview({ percent, time: (percent / 100) * video.duration });
+  };
+
+  const activePreview = seekPreview
+    ? previewThumbnails.find((t) => seekPreview.time >= t.start && seekPreview.time < t.end) ||
+      previewThumbnails[previewThumbnails.length - 1]
+    : undefined;
+
+  const resumePlayback = () => {
+    const video = videoRef.current;
+    if (!video || resumePosition === null) return;
+
+    const position = resumePosition;
+    setResumePosition(null);
+    if (video.duration) {
+      seekTo(position);
+    } else {
+      video.addEventListener('loadedmetadata', () => seekTo(position), { once: true });
+    }
+    video.play().then(() => {
+      setHasStarted(true);
+    }).catch(() => {});
+  };
+
+  // Used by the keyboard shortcuts. Live streams can only seek inside their
+  // DVR window; seeking past its end goes back to live.
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (isVod && video.duration) {
+      video.currentTime = Math.min(Math.max(0, time), video.duration);
+      setProgress((video.currentTime / video.duration) * 100);
+    } else if (!isVod && dvrWindow > 0 && !isLinear) {
+      const liveWindow = getLiveWindow();
+      if (!liveWindow) return;
+      if (time >= liveWindow.end - 1) {
+        jumpToLive();
+        return;
+      }
+      const newTime = Math.max(liveWindow.start, time);
+      setLiveLatencyLimit(false);
+      video.currentTime = newTime;
+      setBehindLive(liveWindow.end - newTime);
+      setProgress(((newTime - liveWindow.start) / (liveWindow.end - liveWindow.start)) * 100);
+    }
+  };
+
+  const seekToPercent = (percent: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isVod) {
+      seekTo((percent / 100) * video.duration);
+    } else {
+      const liveWindow = getLiveWindow();
+      if (liveWindow) {
+        seekTo(liveWindow.start + (percent / 100) * (liveWindow.end - liveWindow.start));
+      }
+    }
+  };
+
+  const changePlaybackRate = (rate: number) => {
+    if (videoRef.current) {
+      // defaultPlaybackRate survives hls.js reattaching the media element
+      videoRef.current.defaultPlaybackRate = rate;
+      videoRef.current.playbackRate = rate;
+    }
+    setPlaybackRate(rate);
+    setShowSpeedMenu(false);
+  };
+
   const toggleFullscreen = () => {
     const video = videoRef.current as HTMLVideoElement & {
       webkitEnterFullscreen?: () => void;
@@ -597,9 +1509,58 @@ export default function VideoPlayer({
     }
   };
 
+  // hls.js watches textTracks and follows along, so subtitle renditions are
+  // switched by setting the native track mode too
+  const selectCaption = (trackIndex: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let chosen: TextTrack | null = null;
+    for (let i = 0; i < video.textTracks.length; i++) {
+      const track = video.textTracks[i];
+      if (track.kind !== 'subtitles' && track.kind !== 'captions') continue;
+      if (i === trackIndex) {
+        chosen = track;
+      } else if (track.mode === 'showing') {
+        track.mode = 'disabled';
+      }
+    }
+    if (chosen) {
+      chosen.mode = 'showing';
+    }
+    localStorage.setItem('captionLanguage', chosen ? chosen.language || chosen.label : 'off');
+    setActiveCaption(chosen ? trackIndex : -1);
+  };
+
+  const toggleCaptions = () => {
+    if (activeCaption !== -1) {
+      selectCaption(-1);
+      return;
+    }
+    if (textTracks.length === 0) return;
+    const preferred = localStorage.getItem('captionLanguage');
+    const track = textTracks.find((t) => (t.language || t.label) === preferred) || textTracks[0];
+    selectCaption(track.index);
+  };
+
+  const updateCaptionStyle = (changes: Partial<CaptionStyle>) => {
+    const next = { ...captionStyle, ...changes };
+    setCaptionStyle(next);
+    localStorage.setItem('captionStyle', JSON.stringify(next));
+  };
+
   const jumpToLive = () => {
     if (videoRef.current && hlsRef.current) {
-      videoRef.current.currentTime = videoRef.current.duration;
+      setLiveLatencyLimit(true);
+      const liveWindow = getLiveWindow();
+      videoRef.current.currentTime = liveWindow ? liveWindow.end : videoRef.current.duration;
+      setBehindLive(0);
+      if (videoRef.current.paused) {
+        videoRef.current.play().catch(() => {});
+      }
+    } else if (videoRef.current && webrtcActive && videoRef.current.paused) {
+      // Nothing is buffered over WebRTC, so resuming is back at live
+      videoRef.current.play().catch(() => {});
     }
   };
 
@@ -659,15 +1620,262 @@ export default function VideoPlayer({
     }
   };
 
+  // ==================== EMBED API ====================
+  // postMessage control and events for the page hosting an embed; the
+  // protocol is described in embedProtocol.ts
+
+  embedApiRef.current = {
+    getState: () => {
+      const video = videoRef.current;
+      return {
+        ready: embedReadyRef.current,
+        playing: !!video && !video.paused,
+        muted: video ? video.muted : isMuted,
+        volume: video ? video.volume : volume,
+        currentTime: video ? video.currentTime : 0,
+        duration: isVod && video && isFinite(video.duration) ? video.duration : null,
+        isVod,
+        isLive: liveStatusRef.current === 'live',
+        quality: displayQuality === -1 || !displayHeight ? 'auto' : displayHeight,
+        qualities: [...new Set(qualities.map((q) => q.height))].sort((a, b) => b - a),
+        playbackRate: video ? video.playbackRate : 1,
+      };
+    },
+
+    run: async (command, value) => {
+      const video = videoRef.current;
+      if (!video) throw new Error('Player is not ready');
+
+      switch (command) {
+        case 'play':
+          await video.play();
+          setHasStarted(true);
+          break;
+        case 'pause':
+          video.pause();
+          break;
+        case 'seek': {
+          const seconds = Number(value);
+          if (!isFinite(seconds)) throw new Error('seek needs a number of seconds');
+          if (isVod) {
+            seekTo(seconds);
+          } else if (dvrWindow > 0 && !isLinear && !webrtcActive) {
+            const liveWindow = getLiveWindow();
+            if (!liveWindow) throw new Error('Stream is not playing');
+            seekTo(liveWindow.end + Math.min(0, seconds));
+          } else {
+            throw new Error('Seeking is not available');
+          }
+          break;
+        }
+        case 'mute':
+          video.muted = true;
+          setIsMuted(true);
+          break;
+        case 'unmute':
+          video.muted = false;
+          setIsMuted(false);
+          break;
+        case 'setVolume': {
+          const level = Number(value);
+          if (!isFinite(level) || level < 0 || level > 1) throw new Error('Volume must be between 0 and 1');
+          changeVolume(level);
+          break;
+        }
+        case 'setQuality': {
+          if (value === 'auto') {
+            changeQuality(-1);
+            break;
+          }
+          const quality = qualities.find((q) => q.height === Number(value));
+          if (!quality) throw new Error(`Quality ${value} is not available`);
+          changeQuality(quality.index, quality.height);
+          break;
+        }
+        case 'getState':
+          break;
+        default:
+          throw new Error(`Unknown command: ${command}`);
+      }
+    },
+  };
+
+  const postEmbedEvent = (event: EmbedEventName, data?: Record<string, unknown>) => {
+    if (!isEmbed || !embedOriginRef.current || !embedApiRef.current) return;
+    window.parent.postMessage(
+      { source: EMBED_MESSAGE_SOURCE, type: 'event', event, data, state: embedApiRef.current.getState() },
+      embedOriginRef.current
+    );
+  };
+
+  useEffect(() => {
+    if (!isEmbed) return;
+    const parentOrigin = getEmbedParentOrigin(embedAllowedOrigins);
+    embedOriginRef.current = parentOrigin;
+    if (!parentOrigin) return;
+
+    const handleMessage = async (e: MessageEvent) => {
+      if (e.source !== window.parent || !isEmbedMessage(e.data) || e.data.type !== 'command') return;
+      if (parentOrigin !== '*' && e.origin !== parentOrigin) return;
+
+      const { id, command, value } = e.data;
+      const respond = (message: { ok: boolean; error?: string; state?: EmbedPlayerState }) => {
+        window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, type: 'response', id, ...message }, e.origin);
+      };
+      try {
+        await embedApiRef.current!.run(command, value);
+        respond({ ok: true, state: embedApiRef.current!.getState() });
+      } catch (err) {
+        respond({ ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [isEmbed, embedAllowedOrigins.join(',')]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isEmbed || !video) return;
+
+    const handleReady = () => {
+      if (embedReadyRef.current) return;
+      embedReadyRef.current = true;
+      postEmbedEvent('ready');
+    };
+    const handlePlay = () => postEmbedEvent('play');
+    const handlePause = () => postEmbedEvent('pause');
+    const handleEnded = () => postEmbedEvent('ended');
+    const handleTimeUpdate = () => postEmbedEvent('timeupdate', { currentTime: video.currentTime });
+
+    video.addEventListener('loadedmetadata', handleReady);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('ended', handleEnded);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    if (video.readyState >= 1) handleReady();
+
+    return () => {
+      video.removeEventListener('loadedmetadata', handleReady);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('ended', handleEnded);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+    };
+  }, [isEmbed]);
+
+  useEffect(() => {
+    if (error) postEmbedEvent('error', { message: error });
+  }, [error]);
+
+  // Rebuffering isn't a change of status; only the stream going away or
+  // coming back is
+  useEffect(() => {
+    if (isVod) return;
+    const status = error
+      ? 'ended'
+      : isReconnecting
+      ? 'reconnecting'
+      : scheduledStart
+      ? 'scheduled'
+      : !isLoading
+      ? 'live'
+      : null;
+    if (!status || status === liveStatusRef.current) return;
+
+    liveStatusRef.current = status;
+    if (status === 'live') {
+      postEmbedEvent('live');
+    } else {
+      postEmbedEvent('offline', { reason: status });
+    }
+  }, [isVod, error, isReconnecting, scheduledStart, isLoading]);
+
+  useEffect(() => {
+    const level = qualities.find((q) => q.index === currentQuality);
+    if (level) postEmbedEvent('qualitychange', { quality: level.height });
+  }, [currentQuality]);
+
+  // Only handled while focus is inside the player, so shortcuts never fire
+  // while the viewer is typing in chat or elsewhere on the page
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    const isSlider = target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'range';
+    const isEditable = target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT'
+      || (target.tagName === 'INPUT' && !isSlider);
+    if (isEditable) return;
+    if (isSlider && e.key.startsWith('Arrow')) return; // Let sliders handle their own arrows
+    const video = videoRef.current;
+    if (!video) return;
+
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    switch (key) {
+      case ' ':
+      case 'k':
+        // A focused button activates on Space itself
+        if (key === ' ' && target.tagName === 'BUTTON') return;
+        togglePlay();
+        break;
+      case 'j':
+        seekTo(video.currentTime - 10);
+        break;
+      case 'l':
+        seekTo(video.currentTime + 10);
+        break;
+      case 'ArrowLeft':
+        seekTo(video.currentTime - 5);
+        break;
+      case 'ArrowRight':
+        seekTo(video.currentTime + 5);
+        break;
+      case 'ArrowUp':
+        changeVolume(Math.round(((isMuted ? 0 : volume) + 0.1) * 10) / 10);
+        break;
+      case 'ArrowDown':
+        changeVolume(Math.round(((isMuted ? 0 : volume) - 0.1) * 10) / 10);
+        break;
+      case 'f':
+        toggleFullscreen();
+        break;
+      case 'm':
+        toggleMute();
+        break;
+      case 'c':
+        toggleCaptions();
+        break;
+      case '?':
+        setShowShortcuts(!showShortcuts);
+        break;
+      case 'Escape':
+        if (!showShortcuts) return;
+        setShowShortcuts(false);
+        break;
+      default:
+        if (/^[0-9]$/.test(key)) {
+          seekToPercent(parseInt(key, 10) * 10);
+          break;
+        }
+        return;
+    }
+    e.preventDefault();
+    showControlsTemporarily();
+  };
+
   return (
     <div
       ref={containerRef}
-      className={`relative bg-black ${isEmbed ? 'w-full h-full' : 'aspect-video'} group`}
+      id={playerIdRef.current}
+      className={`relative bg-black ${isEmbed ? 'w-full h-full' : 'aspect-video'} group outline-none`}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
       onMouseMove={showControlsTemporarily}
       onMouseLeave={() => {
         if (isPlaying) {
           setShowControls(false);
           setShowQualityMenu(false);
+          setShowCaptionMenu(false);
+          setShowSpeedMenu(false);
         }
       }}
     >
@@ -680,15 +1888,67 @@ export default function VideoPlayer({
         x5-video-player-type="h5"
         x5-video-player-fullscreen="true"
         preload="auto"
+        // Sidecar caption files need CORS; without them the video stays a plain
+        // no-cors request so HLS/MP4 origins without CORS headers keep working
+        crossOrigin={captions.length > 0 ? 'anonymous' : undefined}
         onClick={togglePlay}
-      />
+      >
+        {captions.map((caption) => (
+          <track
+            key={caption.src}
+            kind="subtitles"
+            src={caption.src}
+            label={caption.label}
+            srcLang={caption.language}
+          />
+        ))}
+      </video>
+
+      <style>{`
+        #${playerIdRef.current} video::cue {
+          font-size: ${CAPTION_SIZES[captionStyle.size]};
+          color: ${captionStyle.color};
+          background-color: ${CAPTION_BACKGROUNDS[captionStyle.background]};
+        }
+      `}</style>
 
-      {isLoading && hasStarted && (
+      {isLoading && hasStarted && !isReconnecting && !scheduledStart && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/50">
           <Loader2 className="w-12 h-12 text-white animate-spin" />
         </div>
       )}
 
+      {isReconnecting && !error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+          <div className="text-center text-white">
+            <Loader2 className="w-12 h-12 mx-auto mb-3 animate-spin" />
+            <p className="font-semibold">Reconnecting...</p>
+            <p className="text-sm text-gray-400">The broadcaster's connection dropped. Hang tight.</p>
+          </div>
+        </div>
+      )}
+
+      {scheduledStart && !error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+          <div className="text-center text-white p-8">
+            <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-gray-700/50 flex items-center justify-center">
+              <Clock className="w-12 h-12 text-gray-400" />
+            </div>
+            <p className="text-sm uppercase tracking-wider text-gray-400 mb-2">
+              {new Date(scheduledStart).getTime() > now ? 'Starting in' : 'Starting soon'}
+            </p>
+            {new Date(scheduledStart).getTime() > now && (
+              <p className="text-4xl font-bold font-mono mb-2">
+                {formatCountdown(new Date(scheduledStart).getTime() - now)}
+              </p>
+            )}
+            <p className="text-gray-400">
+              {new Date(scheduledStart).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+            </p>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
           <div className="text-center text-white p-8">
@@ -709,7 +1969,9 @@ export default function VideoPlayer({
             </div>
             <h3 className="text-xl font-semibold mb-2">Stream Offline</h3>
             <p className="text-gray-400 mb-6 max-w-xs mx-auto">
-              This stream is currently not available. Please check back later.
+              {isNoShow
+                ? "This scheduled stream didn't start. Please check back later."
+                : 'This stream is currently not available. Please check back later.'}
             </p>
             <button
               onClick={() => window.location.reload()}
@@ -746,9 +2008,41 @@ export default function VideoPlayer({
         )}
 
         <div className="relative z-10 px-4 pb-4 pointer-events-auto">
-          {/* Hide seek bar for Linear TV and live streams */}
-          {isVod && !isLinear && (
-            <div className="mb-2">
+          {/* Hide seek bar for Linear TV, and for live streams without a DVR window or on WebRTC */}
+          {(isVod || (isLive && dvrWindow > 0 && !webrtcActive)) && !isLinear && (
+            <div
+              className="mb-2 relative"
+              onPointerMove={handleSeekBarPointerMove}
+              onPointerLeave={() => setSeekPreview(null)}
+              onPointerUp={(e) => {
+                if (e.pointerType !== 'mouse') setSeekPreview(null);
+              }}
+            >
+              {seekPreview && (
+                <div
+                  className="absolute bottom-full mb-3 -translate-x-1/2 flex flex-col items-center pointer-events-none"
+                  style={{
+                    left: `clamp(${activePreview ? activePreview.width / 2 : 30}px, ${seekPreview.percent}%, calc(100% - ${
+                      activePreview ? activePreview.width / 2 : 30
+                    }px))`,
+                  }}
+                >
+                  {activePreview && (
+                    <div
+                      className="rounded border border-white/80 shadow-lg bg-black"
+                      style={{
+                        width: activePreview.width,
+                        height: activePreview.height,
+                        backgroundImage: `url(${activePreview.url})`,
+                        backgroundPosition: `-${activePreview.x}px -${activePreview.y}px`,
+                      }}
+                    />
+                  )}
+                  <span className="mt-1 px-1.5 py-0.5 rounded bg-black/80 text-white text-xs">
+                    {formatTime(seekPreview.time)}
+                  </span>
+                </div>
+              )}
               <input
                 type="range"
                 min="0"
@@ -769,12 +2063,34 @@ export default function VideoPlayer({
               {!isVod && isLive && (
                 <button
                   onClick={jumpToLive}
-                  className="flex items-center gap-1 px-2 py-1 bg-red-600 text-white text-xs font-bold rounded hover:bg-red-700"
+                  className={`flex items-center gap-1 px-2 py-1 text-white text-xs font-bold rounded ${
+                    isAtLiveEdge ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-600 hover:bg-red-600'
+                  }`}
+                  title={isAtLiveEdge ? 'Live' : 'Jump to live'}
                 >
-                  <span className="w-2 h-2 bg-white rounded-full animate-pulse" />
+                  <span className={`w-2 h-2 bg-white rounded-full ${isAtLiveEdge ? 'animate-pulse' : ''}`} />
                   LIVE
                 </button>
               )}
+              {lowLatencyActive && latency !== null && isAtLiveEdge && (
+                <span
+                  className={`text-xs font-medium tabular-nums ${
+                    latency <= targetLatency + 1
+                      ? 'text-green-400'
+                      : latency <= targetLatency * 2
+                      ? 'text-yellow-400'
+                      : 'text-red-400'
+                  }`}
+                  title={`Latency behind the broadcast (target ${targetLatency}s)`}
+                >
+                  {latency.toFixed(1)}s
+                </span>
+              )}
+              {webrtcActive && isLive && (
+                <span className="text-xs font-medium text-green-400" title="Real-time playback over WebRTC">
+                  Real-time
+                </span>
+              )}
               {!isVod && (
                 <div className="flex items-center gap-1 text-white/80 text-sm">
                   <Eye className="w-4 h-4" />
@@ -782,7 +2098,11 @@ export default function VideoPlayer({
                 </div>
               )}
               <span className="text-white/80 text-sm">
-                {isVod ? `${currentTime} / ${duration}` : currentTime}
+                {isVod
+                  ? `${currentTime} / ${duration}`
+                  : dvrWindow > 0 && !isAtLiveEdge
+                    ? `${formatBehindLive(behindLive)} behind live`
+                    : currentTime}
               </span>
             </div>
           </div>
@@ -825,9 +2145,144 @@ export default function VideoPlayer({
 
             <div className="flex-1" />
 
+            {isVod && (
+              <div className="relative">
+                <button
+                  onClick={() => {
+                    setShowSpeedMenu(!showSpeedMenu);
+                    setShowQualityMenu(false);
+                    setShowCaptionMenu(false);
+                  }}
+                  className="text-white hover:text-red-500 transition-colors flex items-center gap-1"
+                  title="Playback speed"
+                >
+                  <Gauge className="w-5 h-5" />
+                  <span className="text-sm hidden sm:inline">{playbackRate}x</span>
+                </button>
+
+                {showSpeedMenu && (
+                  <div className="absolute bottom-full right-0 mb-2 bg-gray-900/95 rounded-lg overflow-hidden min-w-[100px] shadow-lg">
+                    <div className="px-3 py-2 text-xs text-gray-400 border-b border-gray-700">
+                      Speed
+                    </div>
+                    {PLAYBACK_RATES.map((rate) => (
+                      <button
+                        key={`speed-${rate}`}
+                        onClick={() => changePlaybackRate(rate)}
+                        className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-700 flex items-center justify-between ${
+                          playbackRate === rate ? 'text-red-500' : 'text-white'
+                        }`}
+                      >
+                        {rate === 1 ? 'Normal' : `${rate}x`}
+                        {playbackRate === rate && <span className="text-xs">✓</span>}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {textTracks.length > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => {
+                    setShowCaptionMenu(!showCaptionMenu);
+                    setShowQualityMenu(false);
+                    setShowSpeedMenu(false);
+                  }}
+                  className={`transition-colors hover:text-red-500 ${activeCaption !== -1 ? 'text-red-500' : 'text-white'}`}
+                  title="Captions"
+                >
+                  <Subtitles className="w-5 h-5" />
+                </button>
+
+                {showCaptionMenu && (
+                  <div className="absolute bottom-full right-0 mb-2 bg-gray-900/95 rounded-lg overflow-hidden min-w-[180px] shadow-lg">
+                    <div className="px-3 py-2 text-xs text-gray-400 border-b border-gray-700">
+                      Captions
+                    </div>
+                    <button
+                      onClick={() => selectCaption(-1)}
+                      className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-700 flex items-center justify-between ${
+                        activeCaption === -1 ? 'text-red-500' : 'text-white'
+                      }`}
+                    >
+                      Off
+                      {activeCaption === -1 && <span className="text-xs">✓</span>}
+                    </button>
+                    {textTracks.map((track) => (
+                      <button
+                        key={`caption-${track.index}`}
+                        onClick={() => selectCaption(track.index)}
+                        className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-700 flex items-center justify-between ${
+                          activeCaption === track.index ? 'text-red-500' : 'text-white'
+                        }`}
+                      >
+                        {track.label}
+                        {activeCaption === track.index && <span className="text-xs">✓</span>}
+                      </button>
+                    ))}
+
+                    <div className="px-3 py-2 text-xs text-gray-400 border-t border-gray-700">
+                      Size
+                    </div>
+                    <div className="flex gap-1 px-3 pb-2">
+                      {(['small', 'medium', 'large'] as const).map((size) => (
+                        <button
+                          key={size}
+                          onClick={() => updateCaptionStyle({ size })}
+                          className={`flex-1 px-2 py-1 rounded text-xs capitalize hover:bg-gray-700 ${
+                            captionStyle.size === size ? 'bg-gray-700 text-red-500' : 'text-white'
+                          }`}
+                        >
+                          {size}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="px-3 py-2 text-xs text-gray-400">
+                      Background
+                    </div>
+                    <div className="flex gap-1 px-3 pb-2">
+                      {(['none', 'semi', 'solid'] as const).map((background) => (
+                        <button
+                          key={background}
+                          onClick={() => updateCaptionStyle({ background })}
+                          className={`flex-1 px-2 py-1 rounded text-xs hover:bg-gray-700 ${
+                            captionStyle.background === background ? 'bg-gray-700 text-red-500' : 'text-white'
+                          }`}
+                        >
+                          {background === 'none' ? 'None' : background === 'semi' ? 'Semi' : 'Solid'}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="px-3 py-2 text-xs text-gray-400">
+                      Color
+                    </div>
+                    <div className="flex gap-2 px-3 pb-3">
+                      {CAPTION_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          onClick={() => updateCaptionStyle({ color })}
+                          className={`w-6 h-6 rounded-full border-2 ${
+                            captionStyle.color === color ? 'border-red-500' : 'border-gray-600'
+                          }`}
+                          style={{ backgroundColor: color }}
+                          title={color}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="relative">
               <button
-                onClick={() => setShowQualityMenu(!showQualityMenu)}
+                onClick={() => {
+                  setShowQualityMenu(!showQualityMenu);
+                  setShowCaptionMenu(false);
+                  setShowSpeedMenu(false);
+                }}
                 className="text-white hover:text-red-500 transition-colors flex items-center gap-1"
                 title="Quality"
               >
@@ -922,6 +2377,58 @@ export default function VideoPlayer({
         </div>
       </div>
 
+      {resumePosition !== null && !error && (
+        <div className="absolute bottom-24 left-4 z-20 flex items-center gap-1 bg-gray-900/95 rounded-lg shadow-lg overflow-hidden">
+          <button
+            onClick={resumePlayback}
+            className="flex items-center gap-2 px-4 py-2 text-white text-sm hover:bg-gray-700 transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            Resume from {formatClock(resumePosition)}
+          </button>
+          <button
+            onClick={() => setResumePosition(null)}
+            className="px-2 py-2 text-gray-400 hover:text-white transition-colors"
+            title="Start from the beginning"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {showShortcuts && (
+        <div
+          className="absolute inset-0 flex items-center justify-center bg-black/80 z-20"
+          onClick={() => setShowShortcuts(false)}
+        >
+          <div
+            className="bg-gray-900/95 rounded-lg p-5 min-w-[280px] shadow-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-white font-semibold">Keyboard shortcuts</h3>
+              <button
+                onClick={() => setShowShortcuts(false)}
+                className="text-gray-400 hover:text-white transition-colors"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <table className="text-sm">
+              <tbody>
+                {SHORTCUTS.map((shortcut) => (
+                  <tr key={shortcut.keys}>
+                    <td className="pr-6 py-1 text-gray-300 font-mono whitespace-nowrap">{shortcut.keys}</td>
+                    <td className="py-1 text-white">{shortcut.action}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {isCasting && (
         <div className="absolute top-4 right-4 bg-black/80 px-3 py-1 rounded-full flex items-center gap-2">
           <Cast className="w-4 h-4 text-red-500" />
@@ -148,6 +148,9 @@ const liveDJConnections: Map<string, { stationId: string; djId: string }> = new
 // Station listener counts
 const listenerCounts: Map<string, number> = new Map();
 
+// Auto DJ restarts after ffmpeg exited, per station (for /metrics)
+const autoDJRestarts: Map<string, number> = new Map();
+
 // Current playing track per station
 const currentTracks: Map<string, { trackId: string; startedAt: Date }> = new Map();
 
@@ -1430,6 +1433,7 @@ async function startAutoDJ(stationId: string) {
       );
       if (checkResult.rows.length > 0 && checkResult.rows[0].auto_dj_enabled) {
         console.log(`[Auto DJ] Restarting for station ${station.name}`);
+        autoDJRestarts.set(stationId, (autoDJRestarts.get(stationId) || 0) + 1);
         startAutoDJ(stationId);
       }
     }, 5000);
@@ -1773,6 +1777,73 @@ app.post('/api/audio/icecast-auth', async (req, res) => {
 
 // ==================== MAIN ====================
 
+// ==================== METRICS ====================
+
+// Prometheus text format. Set METRICS_TOKEN to require a bearer token.
+const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+
+function metricLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// Whether each tracked Icecast container is actually running, from Docker
+async function getIcecastContainerStates(): Promise<Map<string, boolean>> {
+  const { exec } = require('child_process');
+  const util = require('util');
+  const execPromise = util.promisify(exec);
+
+  const states = new Map<string, boolean>();
+  for (const [stationId, containerName] of icecastContainers) {
+    try {
+      const { stdout } = await execPromise(`docker inspect -f '{{.State.Running}}' ${containerName}`, { timeout: 5000 });
+      states.set(stationId, stdout.trim() === 'true');
+    } catch (error) {
+      states.set(stationId, false);
+    }
+  }
+  return states;
+}
+
+app.get('/metrics', async (req, res) => {
+  if (METRICS_TOKEN && req.headers.authorization !== `Bearer ${METRICS_TOKEN}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: [string, number][]) => {
+      lines.push(`# HELP ${name} ${help}`);
+      lines.push(`# TYPE ${name} ${type}`);
+      for (const [labels, value] of samples) {
+        lines.push(`${name}${labels ? `{${labels}}` : ''} ${value}`);
+      }
+    };
+
+    metric('audio_autodj_processes', 'gauge', 'Running Auto DJ ffmpeg processes', [['', autoDJProcesses.size]]);
+    metric('audio_autodj_running', 'gauge', '1 for each station with a running Auto DJ',
+      [...autoDJProcesses.keys()].map((id): [string, number] => [`station="${metricLabel(id)}"`, 1]));
+    metric('audio_autodj_restarts_total', 'counter', 'Auto DJ restarts after ffmpeg exited, per station',
+      [...autoDJRestarts].map(([id, count]): [string, number] => [`station="${metricLabel(id)}"`, count]));
+    metric('audio_live_dj_connections', 'gauge', 'Connected live DJs', [['', liveDJConnections.size]]);
+    metric('audio_station_listeners', 'gauge', 'Current listeners per station',
+      [...listenerCounts].map(([id, count]): [string, number] => [`station="${metricLabel(id)}"`, count]));
+
+    const containerStates = await getIcecastContainerStates();
+    metric('audio_icecast_containers', 'gauge', 'Icecast containers this service started', [['', icecastContainers.size]]);
+    metric('audio_icecast_container_up', 'gauge', '1 if the station\'s Icecast container is running',
+      [...containerStates].map(([id, running]): [string, number] => [
+        `station="${metricLabel(id)}",container="${metricLabel(icecastContainers.get(id) || '')}"`,
+        running ? 1 : 0
+      ]));
+
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(lines.join('\n') + '\n');
+  } catch (error) {
+    console.error('Error rendering metrics:', error);
+    res.status(500).json({ error: 'Failed to render metrics' });
+  }
+});
+
 async function main() {
   // Connect to Redis
   redis = createClient({
@@ -0,0 +1,106 @@
+// postMessage protocol between an embedded VideoPlayer (isEmbed) and the page
+// hosting its iframe. embedSdk.ts wraps it for host pages; this file is the
+// reference for anyone talking to the iframe directly.
+//
+// Every message is a plain object with `source: EMBED_MESSAGE_SOURCE`.
+//
+// Host -> player, commands:
+//   { source, type: 'command', id: 1, command: 'play' }
+//   { source, type: 'command', id: 2, command: 'seek', value: 95 }
+//
+//   play, pause, mute, unmute  no value
+//   seek                       VOD: seconds from the start. Live with a DVR
+//                              window: seconds relative to the live edge,
+//                              e.g. -60; 0 returns to live.
+//   setVolume                  0 to 1
+//   setQuality                 a height from state.qualities, or 'auto'
+//   getState                   no value; the response carries `state`
+//
+// Player -> host, one response per command with the same id:
+//   { source, type: 'response', id: 2, ok: true, state }
+//   { source, type: 'response', id: 2, ok: false, error: 'Seeking is not available' }
+//
+// Player -> host, events, each with the state at the time:
+//   { source, type: 'event', event: 'timeupdate', data: { currentTime: 12.5 }, state }
+//
+//   ready          media loaded and commands can be sent
+//   play, pause, ended
+//   timeupdate     data.currentTime
+//   error          data.message
+//   live           a live stream is playing
+//   offline        a live stream went away; data.reason is 'reconnecting'
+//                  (encoder dropped, may come back), 'scheduled' or 'ended'
+//   qualitychange  data.quality, the height now playing
+//
+// The player only talks to the page embedding it, and only when that page's
+// origin is on its embedAllowedOrigins list; otherwise it stays silent and
+// ignores commands. The list is empty by default, which turns the API off.
+// ['*'] allows any host page; events then go to '*' if the browser can't tell
+// the player which page embeds it.
+
+export const EMBED_MESSAGE_SOURCE = 'video-player-embed';
+
+export type EmbedCommandName =
+  | 'play'
+  | 'pause'
+  | 'seek'
+  | 'mute'
+  | 'unmute'
+  | 'setVolume'
+  | 'setQuality'
+  | 'getState';
+
+export type EmbedEventName =
+  | 'ready'
+  | 'play'
+  | 'pause'
+  | 'ended'
+  | 'timeupdate'
+  | 'error'
+  | 'live'
+  | 'offline'
+  | 'qualitychange';
+
+export interface EmbedPlayerState {
+  ready: boolean;
+  playing: boolean;
+  muted: boolean;
+  volume: number;
+  currentTime: number;
+  duration: number | null; // VOD only
+  isVod: boolean;
+  isLive: boolean; // Live stream currently on air
+  quality: number | 'auto'; // Selected height, or 'auto'
+  qualities: number[]; // Available heights, highest first
+  playbackRate: number;
+}
+
+export interface EmbedCommandMessage {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  type: 'command';
+  id: number;
+  command: EmbedCommandName;
+  value?: number | string;
+}
+
+export interface EmbedResponseMessage {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  type: 'response';
+  id: number;
+  ok: boolean;
+  error?: string;
+  state?: EmbedPlayerState;
+}
+
+export interface EmbedEventMessage {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  type: 'event';
+  event: EmbedEventName;
+  data?: Record<string, unknown>;
+  state: EmbedPlayerState;
+}
+
+export type EmbedMessage = EmbedCommandMessage | EmbedResponseMessage | EmbedEventMessage;
+
+export const isEmbedMessage = (data: unknown): data is EmbedMessage =>
+  typeof data === 'object' && data !== null && (data as { source?: unknown }).source === EMBED_MESSAGE_SOURCE;
@@ -0,0 +1,199 @@
+import {
+  EMBED_MESSAGE_SOURCE,
+  EmbedCommandName,
+  EmbedEventMessage,
+  EmbedEventName,
+  EmbedPlayerState,
+  isEmbedMessage,
+} from './embedProtocol';
+
+// Controls an embedded player from the host page. See embedProtocol.ts for
+// the messages underneath; the player only answers host pages whose origin is
+// on its embedAllowedOrigins.
+//
+//   const player = new EmbedPlayer(document.querySelector('iframe')!);
+//   await player.ready();
+//   player.on('timeupdate', ({ currentTime }) => console.log(currentTime));
+//   await player.seek(120);
+//   await player.setQuality(720);
+
+export type { EmbedEventName, EmbedPlayerState } from './embedProtocol';
+
+type EventHandler = (data: Record<string, unknown>, state: EmbedPlayerState) => void;
+
+interface PendingCommand {
+  resolve: (state: EmbedPlayerState) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface EmbedPlayerOptions {
+  timeout?: number; // Milliseconds to wait for a response, default 5000
+}
+
+export class EmbedPlayer {
+  private iframe: HTMLIFrameElement;
+  private origin: string;
+  private timeout: number;
+  private nextId = 1;
+  private pending = new Map<number, PendingCommand>();
+  private handlers = new Map<EmbedEventName, Set<EventHandler>>();
+  private lastState: EmbedPlayerState | null = null;
+
+  constructor(iframe: HTMLIFrameElement, options: EmbedPlayerOptions = {}) {
+    this.iframe = iframe;
+    this.origin = new URL(iframe.src, window.location.href).origin;
+    this.timeout = options.timeout ?? 5000;
+    window.addEventListener('message', this.handleMessage);
+  }
+
+  /** Latest state reported by the player, or null before it has said anything. */
+  get state(): EmbedPlayerState | null {
+    return this.lastState;
+  }
+
+  /** Resolves once the player has loaded its media and accepts commands. */
+  ready(): Promise<EmbedPlayerState> {
+    if (this.lastState?.ready) return Promise.resolve(this.lastState);
+
+    // The iframe may still be loading, and may have sent 'ready' before this
+    // was called, so keep asking as well as listening
+    return new Promise((resolve, reject) => {
+      const deadline = Date.now() + this.timeout * 4;
+      let settled = false;
+      const unsubscribe = this.on('ready', (_, state) => done(state));
+      const done = (state: EmbedPlayerState) => {
+        if (settled) return;
+        settled = true;
+        unsubscribe();
+        resolve(state);
+      };
+      const poll = () => {
+        this.getState()
+          .then((state) => {
+            if (state.ready) {
+              done(state);
+            } else {
+              retry();
+            }
+          })
+          .catch(retry);
+      };
+      const retry = () => {
+        if (settled) return;
+        if (Date.now() > deadline) {
+          unsubscribe();
+          reject(new Error('Player did not become ready'));
+        } else {
+          setTimeout(poll, 500);
+        }
+      };
+      poll();
+    });
+  }
+
+  play() {
+    return this.send('play');
+  }
+
+  pause() {
+    return this.send('pause');
+  }
+
+  /** VOD: seconds from the start. Live DVR: seconds from the live edge (negative, 0 = live). */
+  seek(seconds: number) {
+    return this.send('seek', seconds);
+  }
+
+  mute() {
+    return this.send('mute');
+  }
+
+  unmute() {
+    return this.send('unmute');
+  }
+
+  setVolume(volume: number) {
+    return this.send('setVolume', volume);
+  }
+
+  /** A height from state.qualities, or 'auto'. */
+  setQuality(quality: number | 'auto') {
+    return this.send('setQuality', quality);
+  }
+
+  getState() {
+    return this.send('getState');
+  }
+
+  /** Subscribe to a player event. Returns a function that unsubscribes. */
+  on(event: EmbedEventName, handler: EventHandler): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off(event: EmbedEventName, handler: EventHandler) {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  destroy() {
+    window.removeEventListener('message', this.handleMessage);
+    for (const command of this.pending.values()) {
+      clearTimeout(command.timer);
+      command.reject(new Error('Player destroyed'));
+    }
+    this.pending.clear();
+    this.handlers.clear();
+  }
+
+  private send(command: EmbedCommandName, value?: number | string): Promise<EmbedPlayerState> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`No response to ${command}`));
+      }, this.timeout);
+      this.pending.set(id, { resolve, reject, timer });
+
+      this.iframe.contentWindow?.postMessage(
+        { source: EMBED_MESSAGE_SOURCE, type: 'command', id, command, value },
+        this.origin
+      );
+    });
+  }
+
+  private handleMessage = (e: MessageEvent) => {
+    if (e.source !== this.iframe.contentWindow || e.origin !== this.origin) return;
+    if (!isEmbedMessage(e.data)) return;
+    const message = e.data;
+
+    if (message.type === 'response') {
+      if (message.state) this.lastState = message.state;
+      const command = this.pending.get(message.id);
+      if (!command) return;
+      this.pending.delete(message.id);
+      clearTimeout(command.timer);
+      if (message.ok && message.state) {
+        command.resolve(message.state);
+      } else {
+        command.reject(new Error(message.error || 'Command failed'));
+      }
+    } else if (message.type === 'event') {
+      this.emit(message);
+    }
+  };
+
+  private emit(message: EmbedEventMessage) {
+    this.lastState = message.state;
+    for (const handler of this.handlers.get(message.event) || []) {
+      try {
+        handler(message.data || {}, message.state);
+      } catch (err) {
+        console.error(`Embed player ${message.event} handler failed:`, err);
+      }
+    }
+  }
+}
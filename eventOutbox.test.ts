@@ -0,0 +1,253 @@
+// The outbox dispatcher against an in-memory stream_event_outbox. The fake
+// follows the statements eventOutbox issues, including the claim's rule that
+// a stream's row waits for every earlier undelivered row of that stream.
+const mockQuery = jest.fn();
+const mockPublish = jest.fn();
+
+jest.mock("./database", () => ({
+  query: (...args: any[]) => mockQuery(...args)
+}), { virtual: true });
+jest.mock("./redis", () => ({
+  publish: (...args: any[]) => mockPublish(...args)
+}), { virtual: true });
+
+interface OutboxRow {
+  id: number;
+  event: string;
+  payload: any;
+  stream_id: string | null;
+  status: string;
+  attempts: number;
+  next_attempt_at: number;
+  locked_until: number | null;
+  last_error: string | null;
+  completed_steps: string[];
+  created_at: Date;
+}
+
+class FakeOutbox {
+  rows: OutboxRow[] = [];
+
+  add(event: string, streamId: string | null) {
+    this.rows.push({
+      id: this.rows.length + 1,
+      event,
+      payload: streamId ? { streamId, streamKey: "key-" + streamId } : { destinationId: "dest-1" },
+      stream_id: streamId,
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: Date.now(),
+      locked_until: null,
+      last_error: null,
+      completed_steps: [],
+      created_at: new Date()
+    });
+  }
+
+  get(id: number): OutboxRow {
+    return this.rows.find(r => r.id === id)!;
+  }
+
+  // Lets rows backing off be claimed straight away
+  expireBackoff() {
+    this.rows.forEach(r => { r.next_attempt_at = Date.now(); });
+  }
+
+  query = async (sql: string, params: any[] = []) => {
+    const now = Date.now();
+
+    if (sql.includes("SET status = 'dispatching'")) {
+      const [lockSeconds, limit] = params;
+      const waiting = (r: OutboxRow) => r.status === "pending" || r.status === "dispatching";
+      const claimed = this.rows
+        .filter(r => (r.status === "pending" && r.next_attempt_at <= now) ||
+          (r.status === "dispatching" && r.locked_until! < now))
+        .filter(r => !this.rows.some(e => e.stream_id !== null && e.stream_id === r.stream_id && e.id < r.id && waiting(e)))
+        .slice(0, limit);
+      for (const row of claimed) {
+        row.status = "dispatching";
+        row.attempts++;
+        row.locked_until = now + lockSeconds * 1000;
+      }
+      return { rows: claimed.map(r => ({ ...r, completed_steps: [...r.completed_steps] })) };
+    }
+
+    if (sql.includes("array_append(completed_steps")) {
+      this.get(params[0]).completed_steps.push(params[1]);
+      return { rows: [] };
+    }
+
+    if (sql.includes("SET status = 'delivered'")) {
+      Object.assign(this.get(params[0]), { status: "delivered", locked_until: null });
+      return { rows: [] };
+    }
+
+    if (sql.includes("SET status = 'dead'")) {
+      Object.assign(this.get(params[0]), { status: "dead", locked_until: null, last_error: params[1] });
+      return { rows: [] };
+    }
+
+    if (sql.includes("attempts = attempts - 1")) {
+      for (const id of params[0]) {
+        const row = this.get(id);
+        Object.assign(row, { status: "pending", locked_until: null, attempts: row.attempts - 1 });
+      }
+      return { rows: [] };
+    }
+
+    if (sql.includes("SET status = 'pending'")) {
+      Object.assign(this.get(params[0]), {
+        status: "pending",
+        locked_until: null,
+        last_error: params[1],
+        next_attempt_at: now + params[2] * 1000
+      });
+      return { rows: [] };
+    }
+
+    if (sql.startsWith("DELETE FROM stream_event_outbox")) {
+      return { rows: [] };
+    }
+
+    throw new Error("Unexpected query: " + sql);
+  };
+}
+
+describe("event outbox", () => {
+  let outbox: FakeOutbox;
+  let eventOutbox: typeof import("./eventOutbox");
+  let published: string[];
+  let delivered: Record<string, string[]>;
+
+  // A listener that records each event it handles and can be made to fail
+  const listener = (name: string, failing: Set<string>) => async (event: string, payload: any) => {
+    if (failing.has(event + ":" + payload.streamId)) {
+      throw new Error(name + " is down");
+    }
+    delivered[name].push(event + ":" + payload.streamId);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    outbox = new FakeOutbox();
+    published = [];
+    delivered = { webhooks: [], restreamer: [] };
+    mockQuery.mockReset().mockImplementation(outbox.query);
+    mockPublish.mockReset().mockImplementation(async (event: string, payload: any) => {
+      published.push(event + ":" + payload.streamId);
+    });
+    jest.isolateModules(() => {
+      eventOutbox = require("./eventOutbox");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("delivers each stream's events in order", async () => {
+    eventOutbox.addOutboxListener("webhooks", listener("webhooks", new Set()));
+    outbox.add("stream:start", "a");
+    outbox.add("recording:start", "a");
+    outbox.add("stream:start", "b");
+    outbox.add("stream:stop", "a");
+
+    await eventOutbox.dispatchOutbox();
+
+    expect(outbox.rows.map(r => r.status)).toEqual(["delivered", "delivered", "delivered", "delivered"]);
+    expect(published.filter(e => e.endsWith(":a"))).toEqual(["stream:start:a", "recording:start:a", "stream:stop:a"]);
+    expect(delivered.webhooks).toEqual(expect.arrayContaining(["stream:start:b"]));
+    expect(delivered.webhooks.filter(e => e.endsWith(":a"))).toEqual(["stream:start:a", "recording:start:a", "stream:stop:a"]);
+  });
+
+  it("holds a stream's later events behind one that failed, without holding other streams", async () => {
+    const failing = new Set(["stream:start:a"]);
+    eventOutbox.addOutboxListener("webhooks", listener("webhooks", failing));
+    outbox.add("stream:start", "a");
+    outbox.add("stream:stop", "a");
+    outbox.add("stream:start", "b");
+
+    await eventOutbox.dispatchOutbox();
+
+    expect(outbox.get(1)).toMatchObject({ status: "pending", attempts: 1 });
+    expect(outbox.get(1).last_error).toContain("webhooks is down");
+    expect(outbox.get(2)).toMatchObject({ status: "pending", attempts: 0 });
+    expect(outbox.get(3).status).toBe("delivered");
+    expect(published).toEqual(["stream:start:a", "stream:start:b"]);
+
+    // Still backing off: the stop must not overtake the start
+    await eventOutbox.dispatchOutbox();
+    expect(outbox.get(2).status).toBe("pending");
+
+    failing.clear();
+    outbox.expireBackoff();
+    await eventOutbox.dispatchOutbox();
+
+    expect(outbox.rows.map(r => r.status)).toEqual(["delivered", "delivered", "delivered"]);
+    expect(delivered.webhooks).toEqual(["stream:start:b", "stream:start:a", "stream:stop:a"]);
+  });
+
+  it("only re-runs the listener that failed on retry", async () => {
+    const failing = new Set(["recording:start:a"]);
+    eventOutbox.addOutboxListener("restreamer", listener("restreamer", new Set()));
+    eventOutbox.addOutboxListener("webhooks", listener("webhooks", failing));
+    outbox.add("recording:start", "a");
+
+    await eventOutbox.dispatchOutbox();
+    expect(outbox.get(1).status).toBe("pending");
+    expect(outbox.get(1).completed_steps).toEqual(["publish", "restreamer"]);
+
+    failing.clear();
+    outbox.expireBackoff();
+    await eventOutbox.dispatchOutbox();
+
+    expect(outbox.get(1).status).toBe("delivered");
+    expect(published).toEqual(["recording:start:a"]);
+    expect(delivered.restreamer).toEqual(["recording:start:a"]);
+    expect(delivered.webhooks).toEqual(["recording:start:a"]);
+  });
+
+  it("stops the batch and hands rows back when publishing fails", async () => {
+    eventOutbox.addOutboxListener("webhooks", listener("webhooks", new Set()));
+    mockPublish.mockRejectedValue(new Error("Redis is down"));
+    outbox.add("stream:start", "a");
+    outbox.add("stream:start", "b");
+
+    await eventOutbox.dispatchOutbox();
+
+    expect(outbox.get(1)).toMatchObject({ status: "pending", attempts: 1, completed_steps: [] });
+    expect(outbox.get(2)).toMatchObject({ status: "pending", attempts: 0 });
+    expect(delivered.webhooks).toEqual([]);
+  });
+
+  it("doesn't hold events that belong to no stream behind a failed one", async () => {
+    eventOutbox.addOutboxListener("webhooks", listener("webhooks", new Set(["stream:start:a"])));
+    outbox.add("stream:start", "a");
+    outbox.add("restream:stop", null);
+    outbox.add("restream:stop", null);
+
+    await eventOutbox.dispatchOutbox();
+
+    expect(outbox.rows.map(r => r.status)).toEqual(["pending", "delivered", "delivered"]);
+  });
+
+  it("tells listeners when the event was written, not when it was delivered", async () => {
+    const failing = new Set(["stream:start:a"]);
+    const seen: Date[] = [];
+    eventOutbox.addOutboxListener("webhooks", async (event, payload, occurredAt) => {
+      seen.push(occurredAt);
+      await listener("webhooks", failing)(event, payload);
+    });
+    outbox.add("stream:start", "a");
+    const writtenAt = new Date(Date.now() - 60000);
+    outbox.get(1).created_at = writtenAt;
+
+    await eventOutbox.dispatchOutbox();
+    failing.clear();
+    outbox.expireBackoff();
+    await eventOutbox.dispatchOutbox();
+
+    expect(outbox.get(1).status).toBe("delivered");
+    expect(seen).toEqual([writtenAt, writtenAt]);
+  });
+});
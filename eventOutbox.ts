@@ -0,0 +1,234 @@
+import { query } from "./database";
+import { publish } from "./redis";
+
+// Stream lifecycle events are written to stream_event_outbox in the same
+// statement that changes the stream's status, then published to Redis from
+// here. Delivery is at least once: a row is only marked delivered after
+// publish succeeds, and rows left claimed by a crashed dispatcher are picked
+// up again once their lock expires.
+//
+// Each stream's events go out in order: a row isn't claimed while an earlier
+// row for the same stream is still waiting, including one backing off after
+// a failure. Publishing and each listener are recorded as they complete, so
+// a retry only runs the steps that failed.
+const OUTBOX_BATCH_SIZE = 50;
+const OUTBOX_LOCK_SECONDS = 30;
+const OUTBOX_MAX_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || "10", 10);
+const OUTBOX_MAX_BACKOFF_SECONDS = 300;
+const OUTBOX_RETENTION_DAYS = 7;
+
+export const LIFECYCLE_EVENTS = ["stream:start", "stream:stop", "recording:start", "recording:stop", "stream:no_show"];
+
+// In-process consumers that run as part of delivering each event, known by
+// name so their completion can be recorded. If one throws, only it is run
+// again on retry; it may have done part of its work first, so it must be
+// idempotent or tolerate duplicates. occurredAt is when the event was
+// written, however late it is delivered.
+export type OutboxListener = (event: string, payload: any, occurredAt: Date) => Promise<void>;
+const listeners = new Map<string, OutboxListener>();
+
+const PUBLISH_STEP = "publish";
+
+export function addOutboxListener(name: string, listener: OutboxListener) {
+  listeners.set(name, listener);
+}
+
+let dispatchTimer: ReturnType<typeof setInterval> | null = null;
+let dispatching = false;
+let lastCleanupAt = 0;
+
+export async function ensureOutboxSchema() {
+  await query(`
+    CREATE TABLE IF NOT EXISTS stream_event_outbox (
+      id BIGSERIAL PRIMARY KEY,
+      event VARCHAR(50) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) DEFAULT 'pending',
+      attempts INTEGER DEFAULT 0,
+      next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      locked_until TIMESTAMP,
+      last_error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      delivered_at TIMESTAMP
+    )
+  `, []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_stream_event_outbox_pending ON stream_event_outbox(status, next_attempt_at)",
+    []
+  );
+  // Which steps of delivery (publish, then each listener) are done
+  await query("ALTER TABLE stream_event_outbox ADD COLUMN IF NOT EXISTS completed_steps TEXT[] DEFAULT '{}'", []);
+  // Events are ordered per stream; those without one (restream:stop) aren't
+  await query(
+    "ALTER TABLE stream_event_outbox ADD COLUMN IF NOT EXISTS stream_id TEXT GENERATED ALWAYS AS (payload->>'streamId') STORED",
+    []
+  );
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_stream_event_outbox_stream ON stream_event_outbox(stream_id, id) WHERE status IN ('pending', 'dispatching')",
+    []
+  );
+}
+
+// Claim due rows, including ones whose previous claim expired, that have no
+// earlier undelivered row for the same stream. That is at most one row per
+// stream per batch. SKIP LOCKED keeps a second dispatcher from claiming the
+// same rows.
+async function claimBatch() {
+  const result = await query(
+    `UPDATE stream_event_outbox
+     SET status = 'dispatching', attempts = attempts + 1, locked_until = NOW() + make_interval(secs => $1)
+     WHERE id IN (
+       SELECT o.id FROM stream_event_outbox o
+       WHERE ((o.status = 'pending' AND o.next_attempt_at <= NOW())
+          OR (o.status = 'dispatching' AND o.locked_until < NOW()))
+         AND NOT EXISTS (
+           SELECT 1 FROM stream_event_outbox earlier
+           WHERE earlier.stream_id = o.stream_id AND earlier.id < o.id
+             AND earlier.status IN ('pending', 'dispatching')
+         )
+       ORDER BY o.id
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, event, payload, attempts, completed_steps, created_at`,
+    [OUTBOX_LOCK_SECONDS, OUTBOX_BATCH_SIZE]
+  );
+  return result.rows.sort((a, b) => Number(a.id) - Number(b.id));
+}
+
+async function markFailed(row: any, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (row.attempts >= OUTBOX_MAX_ATTEMPTS) {
+    console.error("Event outbox: Giving up on " + row.event + " #" + row.id + " after " + row.attempts + " attempts:", message);
+    await query(
+      "UPDATE stream_event_outbox SET status = 'dead', locked_until = NULL, last_error = $2 WHERE id = $1",
+      [row.id, message]
+    );
+    return;
+  }
+
+  const backoffSeconds = Math.min(Math.pow(2, row.attempts), OUTBOX_MAX_BACKOFF_SECONDS);
+  await query(
+    `UPDATE stream_event_outbox
+     SET status = 'pending', locked_until = NULL, last_error = $2, next_attempt_at = NOW() + make_interval(secs => $3)
+     WHERE id = $1`,
+    [row.id, message, backoffSeconds]
+  );
+}
+
+// Hand claimed rows back without counting an attempt
+async function releaseRows(rows: any[]) {
+  if (rows.length === 0) return;
+  await query(
+    "UPDATE stream_event_outbox SET status = 'pending', locked_until = NULL, attempts = attempts - 1 WHERE id = ANY($1)",
+    [rows.map(r => r.id)]
+  );
+}
+
+// Runs one step of delivering a row unless an earlier attempt already did,
+// and records it as done
+async function completeStep(row: any, step: string, run: () => Promise<void>) {
+  if ((row.completed_steps || []).includes(step)) return;
+  await run();
+  await query(
+    "UPDATE stream_event_outbox SET completed_steps = array_append(completed_steps, $2) WHERE id = $1",
+    [row.id, step]
+  );
+}
+
+export async function dispatchOutbox() {
+  if (dispatching) return;
+  dispatching = true;
+
+  try {
+    // A stream's next event only becomes claimable once the one before it is
+    // delivered, so keep claiming until nothing is left
+    let rows = await claimBatch();
+    while (rows.length > 0) {
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        try {
+          await completeStep(row, PUBLISH_STEP, () => publish(row.event, row.payload));
+        } catch (error) {
+          // Redis being down, which will fail the rest too
+          await markFailed(row, error);
+          await releaseRows(rows.slice(i + 1));
+          return;
+        }
+
+        const errors: string[] = [];
+        for (const [name, listener] of listeners) {
+          try {
+            await completeStep(row, name, () => listener(row.event, row.payload, new Date(row.created_at)));
+          } catch (error) {
+            console.error("Event outbox: Listener " + name + " failed for " + row.event + " #" + row.id + ":", error);
+            errors.push(name + ": " + (error instanceof Error ? error.message : String(error)));
+          }
+        }
+
+        if (errors.length > 0) {
+          await markFailed(row, errors.join("; "));
+        } else {
+          await query(
+            "UPDATE stream_event_outbox SET status = 'delivered', delivered_at = NOW(), locked_until = NULL WHERE id = $1",
+            [row.id]
+          );
+        }
+      }
+
+      rows = await claimBatch();
+    }
+
+    const now = Date.now();
+    if (now - lastCleanupAt > 60 * 60 * 1000) {
+      lastCleanupAt = now;
+      await query(
+        "DELETE FROM stream_event_outbox WHERE status = 'delivered' AND delivered_at < NOW() - make_interval(days => $1)",
+        [OUTBOX_RETENTION_DAYS]
+      );
+    }
+  } catch (error) {
+    console.error("Event outbox dispatch error:", error);
+  } finally {
+    dispatching = false;
+  }
+}
+
+// Run right after writing events so delivery doesn't wait for the next tick
+export function kickOutbox() {
+  if (dispatchTimer) {
+    dispatchOutbox();
+  }
+}
+
+export function startOutboxDispatcher(intervalMs: number = 1000) {
+  if (dispatchTimer) return;
+  console.log("Starting event outbox dispatcher (interval: " + intervalMs + "ms)");
+  dispatchTimer = setInterval(dispatchOutbox, intervalMs);
+  dispatchOutbox();
+}
+
+export function stopOutboxDispatcher() {
+  if (dispatchTimer) {
+    clearInterval(dispatchTimer);
+    dispatchTimer = null;
+  }
+}
+
+export async function listDeadEvents() {
+  const result = await query(
+    "SELECT id, event, payload, attempts, last_error, created_at FROM stream_event_outbox WHERE status = 'dead' ORDER BY id DESC LIMIT 100",
+    []
+  );
+  return result.rows;
+}
+
+export async function retryDeadEvent(id: string): Promise<boolean> {
+  const result = await query(
+    "UPDATE stream_event_outbox SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL WHERE id = $1 AND status = 'dead' RETURNING id",
+    [id]
+  );
+  kickOutbox();
+  return result.rows.length > 0;
+}
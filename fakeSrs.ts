@@ -0,0 +1,182 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { SrsNode, SrsStream } from "./streamSync";
+
+// A stand-in for an SRS origin's HTTP API, for running stream sync locally
+// without SRS. It serves /api/v1/streams/ from streams published through
+// publish()/unpublish() or a timed script, and can also fail in the ways SRS
+// does. If hookUrl is set it sends the matching http_hooks callbacks as well,
+// e.g. "http://localhost:3000/api/srs/hooks".
+//
+//   const srs = await createFakeSrs({ id: "origin-a", hookUrl });
+//   setStreamSyncClients({ ... });
+//   startStreamSync(1000, [srs.node]);
+//   await srs.runScript([
+//     { action: "publish", stream: "abc" },
+//     { after: 3000, action: "unpublish", stream: "abc" },
+//     { after: 500, action: "publish", stream: "abc" }
+//   ]);
+
+export type FakeSrsFailure =
+  | { type: "api_error"; code: number } // HTTP 200 with a non-zero code
+  | { type: "http_error"; status: number }
+  | { type: "invalid_json" }
+  | { type: "hang" }; // Accept the request and never answer
+
+export interface FakeSrsStep {
+  after?: number; // Milliseconds to wait before this step
+  action: "publish" | "unpublish" | "fail" | "recover";
+  stream?: string;
+  failure?: FakeSrsFailure;
+}
+
+export interface FakeSrsOptions {
+  id?: string;
+  port?: number; // 0 (default) picks a free port
+  hookUrl?: string;
+  hookSecret?: string;
+}
+
+export interface FakeSrs {
+  node: SrsNode;
+  publish: (streamKey: string, overrides?: Partial<SrsStream>) => Promise<void>;
+  unpublish: (streamKey: string) => Promise<void>;
+  fail: (failure: FakeSrsFailure) => void;
+  recover: () => void;
+  runScript: (steps: FakeSrsStep[]) => Promise<void>;
+  requestCount: () => number;
+  close: () => Promise<void>;
+}
+
+function buildStream(streamKey: string, clientId: string, overrides: Partial<SrsStream>): SrsStream {
+  return {
+    id: "vid-" + streamKey,
+    name: streamKey,
+    vhost: "__defaultVhost__",
+    app: "live",
+    url: "/live/" + streamKey,
+    live_ms: Date.now(),
+    clients: 1,
+    frames: 0,
+    recv_bytes: 0,
+    kbps: { recv_30s: 2500, send_30s: 0 },
+    publish: { active: true, cid: clientId },
+    video: { codec: "H264", profile: "High", level: "4.1", width: 1920, height: 1080 },
+    audio: { codec: "AAC", sample_rate: 44100, channel: 2, profile: "LC" },
+    ...overrides
+  };
+}
+
+export async function createFakeSrs(options: FakeSrsOptions = {}): Promise<FakeSrs> {
+  const id = options.id || "fake-srs";
+  const streams = new Map<string, SrsStream>();
+  let failure: FakeSrsFailure | null = null;
+  let requests = 0;
+  let nextClientId = 1;
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== "GET" || !req.url || !req.url.startsWith("/api/v1/streams")) {
+      res.writeHead(404).end();
+      return;
+    }
+    requests++;
+
+    if (failure?.type === "hang") return;
+    if (failure?.type === "http_error") {
+      res.writeHead(failure.status).end();
+      return;
+    }
+    if (failure?.type === "invalid_json") {
+      res.writeHead(200, { "Content-Type": "application/json" }).end("{\"code\":0,");
+      return;
+    }
+
+    // Frame counters move on between polls like a real encoder's would
+    const now = Date.now();
+    const body = {
+      code: failure?.type === "api_error" ? failure.code : 0,
+      server: "vid-" + id,
+      streams: [...streams.values()].map(s => ({
+        ...s,
+        frames: Math.floor((now - (s.live_ms || now)) / 1000 * 30)
+      }))
+    };
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const sendHook = async (action: string, stream: SrsStream) => {
+    if (!options.hookUrl) return;
+    const params = new URLSearchParams({ node: id });
+    if (options.hookSecret) {
+      params.set("secret", options.hookSecret);
+    }
+    await fetch(options.hookUrl + "/" + action + "?" + params.toString(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        action,
+        client_id: stream.publish.cid,
+        ip: "127.0.0.1",
+        vhost: stream.vhost,
+        app: stream.app,
+        stream: stream.name,
+        param: "",
+        server_id: "vid-" + id
+      })
+    }).catch(error => console.error("Fake SRS " + id + ": " + action + " hook failed:", error));
+  };
+
+  const fake: FakeSrs = {
+    node: { id, apiUrl: "http://127.0.0.1:" + port },
+
+    publish: async (streamKey, overrides = {}) => {
+      const stream = buildStream(streamKey, id + "-" + nextClientId++, overrides);
+      streams.set(streamKey, stream);
+      await sendHook("on_publish", stream);
+    },
+
+    unpublish: async (streamKey) => {
+      const stream = streams.get(streamKey);
+      if (!stream) return;
+      streams.delete(streamKey);
+      await sendHook("on_unpublish", stream);
+    },
+
+    fail: (next) => {
+      failure = next;
+    },
+
+    recover: () => {
+      failure = null;
+    },
+
+    runScript: async (steps) => {
+      for (const step of steps) {
+        if (step.after) {
+          await new Promise(resolve => setTimeout(resolve, step.after));
+        }
+        if (step.action === "publish" && step.stream) {
+          await fake.publish(step.stream);
+        } else if (step.action === "unpublish" && step.stream) {
+          await fake.unpublish(step.stream);
+        } else if (step.action === "fail" && step.failure) {
+          fake.fail(step.failure);
+        } else if (step.action === "recover") {
+          fake.recover();
+        }
+      }
+    },
+
+    requestCount: () => requests,
+
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+
+  return fake;
+}
@@ -0,0 +1,292 @@
+import { Router } from "express";
+import { createClient, RedisClientType } from "redis";
+import { query } from "./database";
+import { publish } from "./redis";
+import { authMiddleware, AuthRequest } from "./auth";
+import { SrsStream } from "./streamSync";
+
+// How often each live stream is sampled. Stream sync polls more often than
+// this; in between polls are skipped.
+const INGEST_SAMPLE_INTERVAL_MS = parseInt(process.env.INGEST_SAMPLE_INTERVAL_MS || "10000", 10);
+const INGEST_SAMPLE_RETENTION_DAYS = parseInt(process.env.INGEST_SAMPLE_RETENTION_DAYS || "7", 10);
+
+// Alert thresholds
+const BITRATE_DROP_RATIO = 0.5; // Below half of the recent average
+const BITRATE_DROP_MIN_BASELINE_KBPS = 300; // Ignore drops on streams that were never above this
+const MAX_KEYFRAME_INTERVAL_S = 4;
+
+type IngestAlertType = "bitrate_drop" | "no_video" | "no_audio" | "keyframe_interval";
+
+interface IngestSample {
+  at: number;
+  frames: number;
+  kbps: number;
+}
+
+// Per stream rolling state, kept only for streams that are live
+const recentSamples = new Map<string, IngestSample[]>();
+const activeAlerts = new Map<string, Set<IngestAlertType>>();
+
+// The average a bitrate_drop alert was raised against, held while it is
+// open. The rolling average soon fills with the low samples, which would
+// clear the alert while the bitrate is still down.
+const dropBaselines = new Map<string, number>();
+
+// SRS doesn't report GOP length, but it only cuts HLS segments on keyframes,
+// so the longest recent segment is an upper bound for the keyframe interval.
+// Only meaningful with hls_fragment set below MAX_KEYFRAME_INTERVAL_S.
+//
+// on_hls reaches whichever replica SRS picks while only the leader samples,
+// so the recent durations are kept in Redis, one short list per stream. The
+// TTL clears out streams that stopped without the leader seeing them go.
+const SEGMENT_DURATIONS_KEPT = 5;
+const SEGMENT_DURATIONS_TTL_MS = 5 * 60 * 1000;
+
+let redis: RedisClientType | null = null;
+let lastCleanupAt = 0;
+
+async function getClient(): Promise<RedisClientType> {
+  if (!redis) {
+    redis = createClient({ url: process.env.REDIS_URL });
+    redis.on("error", (error) => console.error("Ingest health Redis error:", error));
+    await redis.connect();
+  }
+  return redis;
+}
+
+function segmentDurationsKey(streamKey: string): string {
+  return "segment-durations:" + streamKey;
+}
+
+export async function ensureIngestHealthSchema() {
+  await query(`
+    CREATE TABLE IF NOT EXISTS stream_ingest_samples (
+      id BIGSERIAL PRIMARY KEY,
+      stream_key VARCHAR(255) NOT NULL,
+      sampled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      video_codec VARCHAR(20),
+      video_profile VARCHAR(20),
+      width INTEGER,
+      height INTEGER,
+      fps REAL,
+      keyframe_interval REAL,
+      audio_codec VARCHAR(20),
+      audio_sample_rate INTEGER,
+      audio_channels INTEGER,
+      kbps INTEGER
+    )
+  `, []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_stream_ingest_samples_key ON stream_ingest_samples(stream_key, sampled_at)",
+    []
+  );
+  await query(`
+    CREATE TABLE IF NOT EXISTS stream_ingest_alerts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      stream_key VARCHAR(255) NOT NULL,
+      type VARCHAR(30) NOT NULL,
+      message TEXT NOT NULL,
+      raised_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      cleared_at TIMESTAMP
+    )
+  `, []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_stream_ingest_alerts_key ON stream_ingest_alerts(stream_key, raised_at)",
+    []
+  );
+}
+
+// Called from the on_hls hook with each finished segment's duration
+export async function recordSegmentDuration(streamKey: string, durationSeconds: number) {
+  if (!isFinite(durationSeconds) || durationSeconds <= 0) return;
+  const client = await getClient();
+  const key = segmentDurationsKey(streamKey);
+  await client.multi()
+    .rPush(key, String(durationSeconds))
+    .lTrim(key, -SEGMENT_DURATIONS_KEPT, -1)
+    .pExpire(key, SEGMENT_DURATIONS_TTL_MS)
+    .exec();
+}
+
+async function getSegmentDurations(streamKey: string): Promise<number[]> {
+  const client = await getClient();
+  const values = await client.lRange(segmentDurationsKey(streamKey), 0, -1);
+  return values.map(Number).filter(d => isFinite(d) && d > 0);
+}
+
+function averageKbps(history: IngestSample[]): number | null {
+  if (history.length < 3) return null;
+  return history.reduce((sum, s) => sum + s.kbps, 0) / history.length;
+}
+
+function checkAlerts(stream: SrsStream, kbps: number, keyframeInterval: number | null, baseline: number | null): Map<IngestAlertType, string> {
+  const alerts = new Map<IngestAlertType, string>();
+
+  if (!stream.video) {
+    alerts.set("no_video", "No video track is being received");
+  }
+  if (!stream.audio) {
+    alerts.set("no_audio", "No audio track is being received");
+  }
+  if (keyframeInterval !== null && keyframeInterval > MAX_KEYFRAME_INTERVAL_S) {
+    alerts.set("keyframe_interval", "Keyframe interval is about " + keyframeInterval.toFixed(1) + "s, set it to " + MAX_KEYFRAME_INTERVAL_S + "s or less");
+  }
+
+  if (baseline !== null && baseline >= BITRATE_DROP_MIN_BASELINE_KBPS && kbps < baseline * BITRATE_DROP_RATIO) {
+    alerts.set("bitrate_drop", "Bitrate dropped to " + kbps + " kbps from about " + Math.round(baseline) + " kbps");
+  }
+
+  return alerts;
+}
+
+// Raise alerts when a condition starts and clear them when it stops, so a
+// stream stuck without audio produces one alert rather than one per sample
+async function updateAlerts(streamKey: string, current: Map<IngestAlertType, string>) {
+  const previous = activeAlerts.get(streamKey) || new Set<IngestAlertType>();
+
+  for (const [type, message] of current) {
+    if (previous.has(type)) continue;
+    console.log("Ingest health: " + streamKey + " " + type + ": " + message);
+    await query(
+      "INSERT INTO stream_ingest_alerts (stream_key, type, message) VALUES ($1, $2, $3)",
+      [streamKey, type, message]
+    );
+    await publish("stream:ingest-alert", { streamKey, type, message });
+  }
+
+  for (const type of previous) {
+    if (current.has(type)) continue;
+    await query(
+      "UPDATE stream_ingest_alerts SET cleared_at = NOW() WHERE stream_key = $1 AND type = $2 AND cleared_at IS NULL",
+      [streamKey, type]
+    );
+  }
+
+  activeAlerts.set(streamKey, new Set(current.keys()));
+}
+
+async function sampleStream(streamKey: string, stream: SrsStream, now: number) {
+  const history = recentSamples.get(streamKey) || [];
+  const last = history[history.length - 1];
+  if (last && now - last.at < INGEST_SAMPLE_INTERVAL_MS) return;
+
+  const kbps = stream.kbps?.recv_30s || 0;
+  const frames = stream.frames || 0;
+  const fps = last && frames >= last.frames
+    ? (frames - last.frames) / ((now - last.at) / 1000)
+    : null;
+  const durations = await getSegmentDurations(streamKey);
+  const keyframeInterval = durations.length > 0 ? Math.max(...durations) : null;
+
+  await query(
+    `INSERT INTO stream_ingest_samples
+      (stream_key, video_codec, video_profile, width, height, fps, keyframe_interval, audio_codec, audio_sample_rate, audio_channels, kbps)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+    [
+      streamKey,
+      stream.video?.codec || null,
+      stream.video?.profile || null,
+      stream.video?.width || null,
+      stream.video?.height || null,
+      fps,
+      keyframeInterval,
+      stream.audio?.codec || null,
+      stream.audio?.sample_rate || null,
+      stream.audio?.channel || null,
+      kbps
+    ]
+  );
+
+  const baseline = dropBaselines.get(streamKey) ?? averageKbps(history);
+  const alerts = checkAlerts(stream, kbps, keyframeInterval, baseline);
+  await updateAlerts(streamKey, alerts);
+  if (alerts.has("bitrate_drop") && baseline !== null) {
+    dropBaselines.set(streamKey, baseline);
+  } else {
+    dropBaselines.delete(streamKey);
+  }
+
+  history.push({ at: now, frames, kbps });
+  recentSamples.set(streamKey, history.slice(-6));
+}
+
+// Sample every live stream from the latest SRS poll. Streams that are no
+// longer live drop their in-memory state.
+export async function sampleIngestHealth(streams: Map<string, SrsStream>) {
+  const now = Date.now();
+
+  for (const [streamKey, stream] of streams) {
+    try {
+      await sampleStream(streamKey, stream, now);
+    } catch (error) {
+      console.error("Ingest health error for " + streamKey + ":", error);
+    }
+  }
+
+  for (const streamKey of recentSamples.keys()) {
+    if (streams.has(streamKey)) continue;
+    recentSamples.delete(streamKey);
+    dropBaselines.delete(streamKey);
+    await getClient()
+      .then(client => client.del(segmentDurationsKey(streamKey)))
+      .catch(console.error);
+    if (activeAlerts.has(streamKey)) {
+      await updateAlerts(streamKey, new Map()).catch(console.error);
+      activeAlerts.delete(streamKey);
+    }
+  }
+
+  if (now - lastCleanupAt > 60 * 60 * 1000) {
+    lastCleanupAt = now;
+    await query(
+      "DELETE FROM stream_ingest_samples WHERE sampled_at < NOW() - make_interval(days => $1)",
+      [INGEST_SAMPLE_RETENTION_DAYS]
+    ).catch(console.error);
+  }
+}
+
+export const ingestHealthRouter = Router();
+
+// Ingest health for the current (or most recent) session of a stream - owner or admin
+ingestHealthRouter.get("/:id/ingest-health", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const streamResult = await query(
+      "SELECT id, stream_key, status, actual_start, user_id FROM streams WHERE id = $1",
+      [req.params.id]
+    );
+    const stream = streamResult.rows[0];
+    if (!stream || (req.user!.role !== "admin" && stream.user_id !== req.user!.id)) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const since = stream.actual_start || new Date(Date.now() - 60 * 60 * 1000);
+
+    const samplesResult = await query(
+      `SELECT sampled_at, video_codec, video_profile, width, height, fps, keyframe_interval,
+              audio_codec, audio_sample_rate, audio_channels, kbps
+       FROM stream_ingest_samples
+       WHERE stream_key = $1 AND sampled_at >= $2
+       ORDER BY sampled_at`,
+      [stream.stream_key, since]
+    );
+
+    const alertsResult = await query(
+      `SELECT type, message, raised_at, cleared_at
+       FROM stream_ingest_alerts
+       WHERE stream_key = $1 AND raised_at >= $2
+       ORDER BY raised_at DESC`,
+      [stream.stream_key, since]
+    );
+
+    res.json({
+      status: stream.status,
+      latest: samplesResult.rows[samplesResult.rows.length - 1] || null,
+      samples: samplesResult.rows,
+      activeAlerts: alertsResult.rows.filter(a => !a.cleared_at),
+      alerts: alertsResult.rows
+    });
+  } catch (error) {
+    console.error("Error fetching ingest health:", error);
+    res.status(500).json({ error: "Failed to fetch ingest health" });
+  }
+});
@@ -0,0 +1,11 @@
+// Backend tests run straight from the .ts sources. Type-checking is left to
+// the editor and the build; ts-jest only transpiles.
+module.exports = {
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/*.test.ts"],
+  transform: {
+    "^.+\\.ts$": ["ts-jest", {
+      tsconfig: { target: "ES2022", module: "commonjs", isolatedModules: true }
+    }]
+  }
+};
@@ -0,0 +1,135 @@
+import { createClient, RedisClientType } from "redis";
+import * as os from "os";
+
+// Redis lease that decides which API replica runs stream sync. The holder
+// renews it every third of the TTL; if it dies the lease expires and the next
+// replica to try takes over.
+const LEASE_KEY = "stream-sync:leader";
+const LEASE_TTL_MS = parseInt(process.env.STREAM_SYNC_LEASE_TTL_MS || "15000", 10);
+const RENEW_INTERVAL_MS = Math.floor(LEASE_TTL_MS / 3);
+
+export const instanceId = process.env.INSTANCE_ID || os.hostname() + ":" + process.pid;
+
+// Only extend or drop the lease if we still hold it, so a replica that was
+// paused past its TTL can't clobber the new leader
+const RENEW_SCRIPT = `
+  if redis.call("GET", KEYS[1]) == ARGV[1] then
+    return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+  end
+  return 0
+`;
+const RELEASE_SCRIPT = `
+  if redis.call("GET", KEYS[1]) == ARGV[1] then
+    return redis.call("DEL", KEYS[1])
+  end
+  return 0
+`;
+
+export interface LeaderStatus {
+  instanceId: string;
+  isLeader: boolean;
+  leader: string | null;
+  leaseExpiresInMs: number | null;
+}
+
+let redis: RedisClientType | null = null;
+let isLeader = false;
+let lastRenewedAt = 0;
+let electionTimer: ReturnType<typeof setInterval> | null = null;
+
+async function getClient(): Promise<RedisClientType> {
+  if (!redis) {
+    redis = createClient({ url: process.env.REDIS_URL });
+    redis.on("error", (error) => console.error("Leader election Redis error:", error));
+    await redis.connect();
+  }
+  return redis;
+}
+
+async function tryAcquire(client: RedisClientType): Promise<boolean> {
+  const result = await client.set(LEASE_KEY, instanceId, { NX: true, PX: LEASE_TTL_MS });
+  return result === "OK";
+}
+
+async function tryRenew(client: RedisClientType): Promise<boolean> {
+  const result = await client.eval(RENEW_SCRIPT, {
+    keys: [LEASE_KEY],
+    arguments: [instanceId, String(LEASE_TTL_MS)]
+  });
+  return result === 1;
+}
+
+export function startLeaderElection(onElected: () => void, onDemoted: () => void) {
+  if (electionTimer) return;
+
+  const demote = (reason: string) => {
+    if (!isLeader) return;
+    isLeader = false;
+    console.log("Leader election: " + instanceId + " lost leadership (" + reason + ")");
+    onDemoted();
+  };
+
+  const tick = async () => {
+    try {
+      const client = await getClient();
+
+      if (isLeader) {
+        if (await tryRenew(client)) {
+          lastRenewedAt = Date.now();
+        } else {
+          demote("lease taken over");
+        }
+        return;
+      }
+
+      if (await tryAcquire(client)) {
+        isLeader = true;
+        lastRenewedAt = Date.now();
+        console.log("Leader election: " + instanceId + " is now the stream sync leader");
+        onElected();
+      }
+    } catch (error) {
+      console.error("Leader election error:", error);
+      // If we can't reach Redis we can't prove we still hold the lease. Step
+      // down before it could have expired so two leaders never overlap.
+      if (isLeader && Date.now() - lastRenewedAt > LEASE_TTL_MS - RENEW_INTERVAL_MS) {
+        demote("could not renew lease");
+      }
+    }
+  };
+
+  tick();
+  electionTimer = setInterval(tick, RENEW_INTERVAL_MS);
+}
+
+export async function releaseLeadership() {
+  if (electionTimer) {
+    clearInterval(electionTimer);
+    electionTimer = null;
+  }
+  if (!isLeader || !redis) return;
+
+  isLeader = false;
+  try {
+    await redis.eval(RELEASE_SCRIPT, { keys: [LEASE_KEY], arguments: [instanceId] });
+    console.log("Leader election: " + instanceId + " released leadership");
+  } catch (error) {
+    console.error("Leader election: Failed to release lease:", error);
+  }
+}
+
+export function isStreamSyncLeader(): boolean {
+  return isLeader;
+}
+
+export async function getLeaderStatus(): Promise<LeaderStatus> {
+  const client = await getClient();
+  const [leader, ttl] = await Promise.all([client.get(LEASE_KEY), client.pTTL(LEASE_KEY)]);
+
+  return {
+    instanceId,
+    isLeader,
+    leader,
+    leaseExpiresInMs: ttl >= 0 ? ttl : null
+  };
+}
@@ -0,0 +1,237 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Preview generation for uploaded VODs, with scripts in place of ffmpeg and
+// ffprobe and vod_files kept in memory. The scripts log their arguments so
+// the test can see which file was read.
+const mockQuery = jest.fn();
+const mockListeners = new Map<string, (event: string, payload: any) => Promise<void>>();
+
+jest.mock("./database", () => ({
+  query: (...args: any[]) => mockQuery(...args)
+}), { virtual: true });
+jest.mock("./eventOutbox", () => ({
+  addOutboxListener: (name: string, listener: any) => mockListeners.set(name, listener)
+}));
+
+// Child processes don't see the test's process.env, so the log path is
+// written into the scripts
+const fakeFfmpeg = (log: string) => `#!/usr/bin/env node
+const fs = require("fs");
+const args = process.argv.slice(2);
+fs.appendFileSync(${JSON.stringify(log)}, JSON.stringify(["ffmpeg", ...args]) + "\\n");
+// Stands in for a long encode, to be interrupted
+if (args.some(arg => arg.endsWith("slow.mp4"))) {
+  setTimeout(() => {}, 30000);
+} else {
+  fs.writeFileSync(args[args.length - 1], "");
+}
+`;
+
+const fakeFfprobe = (log: string) => `#!/usr/bin/env node
+const fs = require("fs");
+fs.appendFileSync(${JSON.stringify(log)}, JSON.stringify(["ffprobe", ...process.argv.slice(2)]) + "\\n");
+process.stdout.write("95.5\\n");
+`;
+
+interface VodRow {
+  id: string;
+  status: string;
+  source_stream_id: string | null;
+  file_path: string | null;
+  duration_seconds: number | null;
+  preview_thumbnails_url: string | null;
+  previews_attempted_at: Date | null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out after " + timeoutMs + "ms");
+    }
+    await sleep(10);
+  }
+}
+
+describe("upload previews", () => {
+  let tempDir: string;
+  let storagePath: string;
+  let toolLog: string;
+  let vods: Map<string, VodRow>;
+  let liveToVod: typeof import("./liveToVod");
+
+  const addUpload = (id: string, overrides: Partial<VodRow> = {}) => {
+    vods.set(id, {
+      id,
+      status: "ready",
+      source_stream_id: null,
+      file_path: null,
+      duration_seconds: null,
+      preview_thumbnails_url: null,
+      previews_attempted_at: null,
+      ...overrides
+    });
+  };
+
+  const toolCalls = (): string[][] => fs.existsSync(toolLog)
+    ? fs.readFileSync(toolLog, "utf8").trim().split("\n").map(line => JSON.parse(line))
+    : [];
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "live-to-vod-test-"));
+    storagePath = path.join(tempDir, "vod");
+    toolLog = path.join(tempDir, "tools.log");
+    fs.writeFileSync(path.join(tempDir, "ffmpeg"), fakeFfmpeg(toolLog), { mode: 0o755 });
+    fs.writeFileSync(path.join(tempDir, "ffprobe"), fakeFfprobe(toolLog), { mode: 0o755 });
+
+    process.env.FFMPEG_PATH = path.join(tempDir, "ffmpeg");
+    process.env.FFPROBE_PATH = path.join(tempDir, "ffprobe");
+    process.env.VOD_STORAGE_PATH = storagePath;
+    process.env.VOD_PUBLIC_URL = "/vod-files";
+    liveToVod = require("./liveToVod");
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    fs.rmSync(storagePath, { recursive: true, force: true });
+    fs.rmSync(toolLog, { force: true });
+    vods = new Map();
+
+    mockQuery.mockReset().mockImplementation(async (sql: string, params: any[] = []) => {
+      if (sql.includes("to_regclass('vod_files')")) {
+        return { rows: [{ name: "vod_files" }] };
+      }
+      if (sql.includes("AND preview_thumbnails_url IS NULL AND previews_attempted_at IS NULL")) {
+        const due = [...vods.values()].filter(v => v.status === "ready" && !v.source_stream_id &&
+          !v.preview_thumbnails_url && !v.previews_attempted_at);
+        return { rows: due.slice(0, params[0]).map(v => ({ id: v.id })) };
+      }
+      if (sql.startsWith("SELECT file_path, duration_seconds FROM vod_files")) {
+        const vod = vods.get(params[0]);
+        return { rows: vod && vod.status === "ready" ? [{ file_path: vod.file_path, duration_seconds: vod.duration_seconds }] : [] };
+      }
+      if (sql.startsWith("UPDATE vod_files SET preview_thumbnails_url")) {
+        Object.assign(vods.get(params[0])!, { preview_thumbnails_url: params[1], previews_attempted_at: new Date() });
+        return { rows: [] };
+      }
+      return { rows: [] };
+    });
+
+    await liveToVod.ensureLiveToVodSchema();
+  });
+
+  afterEach(() => {
+    liveToVod.stopLiveToVod();
+    jest.restoreAllMocks();
+  });
+
+  it("makes previews for an upload from the video in its storage directory", async () => {
+    addUpload("vod-1");
+    const videoPath = path.join(storagePath, "vod-1", "original.mp4");
+    fs.mkdirSync(path.dirname(videoPath), { recursive: true });
+    fs.writeFileSync(videoPath, "");
+
+    await liveToVod.startLiveToVod();
+
+    await waitFor(() => vods.get("vod-1")!.previews_attempted_at !== null);
+    expect(vods.get("vod-1")!.preview_thumbnails_url).toBe("/vod-files/vod-1/previews.vtt");
+
+    const calls = toolCalls();
+    expect(calls.map(c => c[0])).toEqual(["ffprobe", "ffmpeg"]);
+    expect(calls[1][calls[1].indexOf("-i") + 1]).toBe(videoPath);
+
+    const vtt = fs.readFileSync(path.join(storagePath, "vod-1", "previews.vtt"), "utf8");
+    expect(vtt.startsWith("WEBVTT")).toBe(true);
+    expect(vtt).toContain("00:00:00.000 --> 00:00:02.000\npreviews.jpg#xywh=0,0,160,90");
+    expect(fs.existsSync(path.join(storagePath, "vod-1", "previews.jpg"))).toBe(true);
+  });
+
+  it("uses the stored duration and file_path when the row has them", async () => {
+    const videoPath = path.join(tempDir, "elsewhere.mp4");
+    fs.writeFileSync(videoPath, "");
+    await liveToVod.startLiveToVod();
+    addUpload("vod-2", { file_path: videoPath, duration_seconds: 30 });
+
+    liveToVod.generateUploadPreviews("vod-2");
+
+    await waitFor(() => vods.get("vod-2")!.previews_attempted_at !== null);
+    expect(vods.get("vod-2")!.preview_thumbnails_url).toBe("/vod-files/vod-2/previews.vtt");
+    const calls = toolCalls();
+    expect(calls.map(c => c[0])).toEqual(["ffmpeg"]);
+    expect(calls[0][calls[0].indexOf("-i") + 1]).toBe(videoPath);
+  });
+
+  it("records the attempt for an upload without a video, so it isn't swept again", async () => {
+    addUpload("vod-3");
+
+    await liveToVod.startLiveToVod();
+
+    await waitFor(() => vods.get("vod-3")!.previews_attempted_at !== null);
+    expect(vods.get("vod-3")!.preview_thumbnails_url).toBeNull();
+    expect(toolCalls()).toEqual([]);
+  });
+
+  it("leaves replays and uploads that aren't ready to the replay pipeline", async () => {
+    addUpload("vod-4", { status: "processing" });
+    addUpload("vod-5", { source_stream_id: "stream-1" });
+
+    await liveToVod.startLiveToVod();
+    await sleep(200);
+
+    expect(vods.get("vod-4")!.previews_attempted_at).toBeNull();
+    expect(vods.get("vod-5")!.previews_attempted_at).toBeNull();
+  });
+
+  it("stops an upload's previews midway when the leader steps down, without recording an attempt", async () => {
+    addUpload("vod-6");
+    const videoPath = path.join(storagePath, "vod-6", "slow.mp4");
+    fs.mkdirSync(path.dirname(videoPath), { recursive: true });
+    fs.writeFileSync(videoPath, "");
+    addUpload("vod-7");
+
+    await liveToVod.startLiveToVod();
+    await waitFor(() => toolCalls().some(c => c[0] === "ffmpeg"));
+    liveToVod.stopLiveToVod();
+    const failed = console.error as jest.Mock;
+    await waitFor(() => failed.mock.calls.some(([message]) => message.includes("failed for vod-6")));
+    await sleep(50);
+
+    // Left for the new leader's sweep, and the queued upload isn't started
+    expect(vods.get("vod-6")!.previews_attempted_at).toBeNull();
+    expect(vods.get("vod-7")!.previews_attempted_at).toBeNull();
+    liveToVod.generateUploadPreviews("vod-7");
+    await sleep(100);
+    expect(vods.get("vod-7")!.previews_attempted_at).toBeNull();
+  });
+
+  it("drops replays still settling when the leader steps down", async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes("SET status = 'processing'")) {
+        return { rows: [{ id: "replay-1" }] };
+      }
+      return { rows: [] };
+    });
+    await liveToVod.startLiveToVod();
+
+    jest.useFakeTimers();
+    try {
+      await mockListeners.get("liveToVod")!("recording:stop", { streamId: "stream-1" });
+      liveToVod.stopLiveToVod();
+      jest.advanceTimersByTime(10000);
+    } finally {
+      jest.useRealTimers();
+    }
+    await sleep(50);
+
+    expect(mockQuery.mock.calls.filter(([, params]) => params && params[0] === "replay-1")).toEqual([]);
+  });
+});
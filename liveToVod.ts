@@ -0,0 +1,489 @@
+import { Router } from "express";
+import { ChildProcess, spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+import { addOutboxListener } from "./eventOutbox";
+
+// Turns a stream's DVR recording into a VOD library item. recording:start
+// creates the vod_files row in "recording"; SRS reports each DVR file through
+// on_dvr; recording:stop moves the row to "processing" and queues it here,
+// where the files are joined into one MP4, probed for duration and given a
+// thumbnail before the row becomes "ready" (or "failed"). A sprite sheet of
+// preview frames and the WebVTT track that indexes it are written alongside,
+// for the player's seek bar.
+//
+// Uploads get the same previews. The leader sweeps up ready uploads that have
+// never had previews made, and the VOD service can queue one straight away
+// with generateUploadPreviews(). The VOD service keeps an upload's files in
+// VOD_STORAGE_PATH/<id>/, the directory VOD_PUBLIC_URL serves, like replays,
+// but doesn't fill file_path, so the video is looked for there.
+//
+// SRS and the API usually see the DVR directory under different paths, so
+// SRS_DVR_ROOT is rewritten to DVR_PATH when a file is recorded.
+const SRS_DVR_ROOT = process.env.SRS_DVR_ROOT || "";
+const DVR_PATH = process.env.DVR_PATH || "";
+const VOD_STORAGE_PATH = process.env.VOD_STORAGE_PATH || "/data/vod";
+const VOD_PUBLIC_URL = process.env.VOD_PUBLIC_URL || "/vod-files";
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+// SRS writes the last DVR file when the encoder unpublishes, which can be
+// moments after recording:stop if the grace window is short
+const DVR_SETTLE_MS = 5000;
+
+// Seek bar previews: at most PREVIEW_COLUMNS x PREVIEW_ROWS frames in one
+// sprite, spread evenly, but never closer together than PREVIEW_MIN_INTERVAL
+const PREVIEW_WIDTH = 160;
+const PREVIEW_HEIGHT = 90;
+const PREVIEW_COLUMNS = 10;
+const PREVIEW_ROWS = 10;
+const PREVIEW_MIN_INTERVAL = 2;
+const PREVIEW_SWEEP_INTERVAL_MS = 60000;
+const PREVIEW_SWEEP_BATCH = 20;
+const UPLOAD_VIDEO_EXTENSIONS = [".mp4", ".m4v", ".mov", ".mkv", ".webm"];
+
+// One job at a time; remuxing is cheap but thumbnails and probing are not
+type VodJob = "replay" | "previews";
+const processingQueue: { vodId: string; job: VodJob }[] = [];
+let processing = false;
+let previewSweepTimer: ReturnType<typeof setInterval> | null = null;
+
+// Only the stream sync leader processes VODs. When it steps down, its queue,
+// the replays still settling and the ffmpeg it is running are all dropped;
+// the new leader picks the replays up from their "processing" rows and the
+// uploads from its sweep.
+let leading = false;
+const settleTimers = new Set<ReturnType<typeof setTimeout>>();
+const runningProcesses = new Set<ChildProcess>();
+
+// vod_files belongs to the VOD service; replays only add the columns they
+// need. Without the table there is nowhere to put replays, so the worker
+// stays off rather than failing every recording event.
+let vodFilesAvailable = false;
+
+export async function ensureLiveToVodSchema() {
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS auto_publish_replay BOOLEAN DEFAULT true", []);
+
+  const table = await query("SELECT to_regclass('vod_files') AS name", []);
+  vodFilesAvailable = Boolean(table.rows[0]?.name);
+  if (!vodFilesAvailable) {
+    console.error("Live to VOD: vod_files table not found, replays are disabled until the VOD service has created it");
+    return;
+  }
+
+  await query("ALTER TABLE vod_files ADD COLUMN IF NOT EXISTS source_stream_id UUID", []);
+  await query("ALTER TABLE vod_files ADD COLUMN IF NOT EXISTS file_path VARCHAR(1000)", []);
+  await query("ALTER TABLE vod_files ADD COLUMN IF NOT EXISTS is_published BOOLEAN DEFAULT true", []);
+  await query("ALTER TABLE vod_files ADD COLUMN IF NOT EXISTS error TEXT", []);
+  await query("ALTER TABLE vod_files ADD COLUMN IF NOT EXISTS preview_thumbnails_url VARCHAR(1000)", []);
+  await query("ALTER TABLE vod_files ADD COLUMN IF NOT EXISTS previews_attempted_at TIMESTAMP", []);
+  await query(`
+    CREATE TABLE IF NOT EXISTS vod_recording_files (
+      id BIGSERIAL PRIMARY KEY,
+      vod_id UUID NOT NULL,
+      file_path VARCHAR(1000) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `, []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_vod_recording_files_vod ON vod_recording_files(vod_id)",
+    []
+  );
+}
+
+function runProcess(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    runningProcesses.add(child);
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (data) => { stdout += data.toString(); });
+    child.stderr.on("data", (data) => { stderr += data.toString(); });
+    child.on("error", (error) => {
+      runningProcesses.delete(child);
+      reject(error);
+    });
+    child.on("exit", (code) => {
+      runningProcesses.delete(child);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        const lastLine = stderr.trim().split("\n").pop() || "";
+        reject(new Error(command + " exited with code " + code + ": " + lastLine));
+      }
+    });
+  });
+}
+
+function formatVttTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return String(h).padStart(2, "0") + ":" + String(m).padStart(2, "0") + ":" + s.toFixed(3).padStart(6, "0");
+}
+
+// Writes previews.jpg and previews.vtt into outputDir. Each cue points at its
+// tile with a media fragment, e.g. "previews.jpg#xywh=160,0,160,90".
+async function generatePreviewThumbnails(videoPath: string, outputDir: string, duration: number) {
+  const interval = Math.max(PREVIEW_MIN_INTERVAL, duration / (PREVIEW_COLUMNS * PREVIEW_ROWS));
+  const count = Math.min(PREVIEW_COLUMNS * PREVIEW_ROWS, Math.ceil(duration / interval));
+  const rows = Math.ceil(count / PREVIEW_COLUMNS);
+
+  await runProcess(FFMPEG_PATH, [
+    "-hide_banner", "-loglevel", "error", "-y",
+    "-i", videoPath,
+    "-vf", "fps=1/" + interval +
+      ",scale=" + PREVIEW_WIDTH + ":" + PREVIEW_HEIGHT + ":force_original_aspect_ratio=decrease" +
+      ",pad=" + PREVIEW_WIDTH + ":" + PREVIEW_HEIGHT + ":(ow-iw)/2:(oh-ih)/2" +
+      ",tile=" + PREVIEW_COLUMNS + "x" + rows,
+    "-frames:v", "1", "-q:v", "5",
+    path.join(outputDir, "previews.jpg")
+  ]);
+
+  const cues = ["WEBVTT", ""];
+  for (let i = 0; i < count; i++) {
+    const x = (i % PREVIEW_COLUMNS) * PREVIEW_WIDTH;
+    const y = Math.floor(i / PREVIEW_COLUMNS) * PREVIEW_HEIGHT;
+    cues.push(formatVttTime(i * interval) + " --> " + formatVttTime(Math.min(duration, (i + 1) * interval)));
+    cues.push("previews.jpg#xywh=" + x + "," + y + "," + PREVIEW_WIDTH + "," + PREVIEW_HEIGHT);
+    cues.push("");
+  }
+  await fs.promises.writeFile(path.join(outputDir, "previews.vtt"), cues.join("\n"));
+}
+
+function toLocalDvrPath(srsPath: string): string {
+  if (SRS_DVR_ROOT && DVR_PATH && srsPath.startsWith(SRS_DVR_ROOT)) {
+    return path.join(DVR_PATH, srsPath.slice(SRS_DVR_ROOT.length));
+  }
+  return srsPath;
+}
+
+// Called from the on_dvr hook with each file SRS finishes writing
+export async function recordDvrFile(streamKey: string, cwd: string | undefined, file: string) {
+  if (!vodFilesAvailable) return;
+  const filePath = toLocalDvrPath(path.resolve(cwd || "/", file));
+  const result = await query(
+    `INSERT INTO vod_recording_files (vod_id, file_path)
+     SELECT v.id, $2 FROM vod_files v
+     JOIN streams s ON s.id = v.source_stream_id
+     WHERE s.stream_key = $1 AND v.status IN ('recording', 'processing')
+     ORDER BY v.created_at DESC
+     LIMIT 1
+     RETURNING vod_id`,
+    [streamKey, filePath]
+  );
+  if (result.rows.length === 0) {
+    console.log("Live to VOD: No recording in progress for " + streamKey + ", ignoring " + filePath);
+  }
+}
+
+async function startRecording(payload: any) {
+  // Outbox events can be delivered twice; only one row per recording
+  const existing = await query(
+    "SELECT id FROM vod_files WHERE source_stream_id = $1 AND status = 'recording'",
+    [payload.streamId]
+  );
+  if (existing.rows.length > 0) return;
+
+  await query(
+    `INSERT INTO vod_files (user_id, title, status, source_stream_id, is_published)
+     SELECT user_id, title, 'recording', id, false FROM streams WHERE id = $1`,
+    [payload.streamId]
+  );
+  console.log("Live to VOD: Recording replay for stream " + payload.streamId);
+}
+
+async function stopRecording(payload: any) {
+  const result = await query(
+    `UPDATE vod_files SET status = 'processing', updated_at = NOW()
+     WHERE source_stream_id = $1 AND status = 'recording'
+     RETURNING id`,
+    [payload.streamId]
+  );
+  for (const row of result.rows) {
+    const timer = setTimeout(() => {
+      settleTimers.delete(timer);
+      enqueueVod(row.id, "replay");
+    }, DVR_SETTLE_MS);
+    settleTimers.add(timer);
+  }
+}
+
+function enqueueVod(vodId: string, job: VodJob) {
+  if (!leading) return;
+  if (processingQueue.some(entry => entry.vodId === vodId && entry.job === job)) return;
+  processingQueue.push({ vodId, job });
+  processQueue();
+}
+
+async function processQueue() {
+  if (processing) return;
+  processing = true;
+
+  try {
+    while (leading && processingQueue.length > 0) {
+      const { vodId, job } = processingQueue.shift()!;
+      if (job === "previews") {
+        await processPreviews(vodId).catch(error => console.error("Live to VOD: Previews failed for " + vodId + ":", error));
+        continue;
+      }
+      try {
+        await processVod(vodId);
+      } catch (error) {
+        // Stepping down kills ffmpeg; the replay isn't failed, it's the new
+        // leader's now
+        if (!leading) break;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error("Live to VOD: Processing failed for " + vodId + ":", message);
+        await query(
+          "UPDATE vod_files SET status = 'failed', error = $2, updated_at = NOW() WHERE id = $1",
+          [vodId, message]
+        ).catch(console.error);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+async function probeDuration(videoPath: string): Promise<number> {
+  const probe = await runProcess(FFPROBE_PATH, [
+    "-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1",
+    videoPath
+  ]);
+  const duration = parseFloat(probe.trim());
+  if (!isFinite(duration) || duration <= 0) {
+    throw new Error("Could not read the video's duration");
+  }
+  return duration;
+}
+
+async function processVod(vodId: string) {
+  const vodResult = await query(
+    `SELECT v.id, v.status, s.auto_publish_replay
+     FROM vod_files v LEFT JOIN streams s ON s.id = v.source_stream_id
+     WHERE v.id = $1`,
+    [vodId]
+  );
+  const vod = vodResult.rows[0];
+  if (!vod || vod.status !== "processing") return;
+
+  const filesResult = await query(
+    "SELECT file_path FROM vod_recording_files WHERE vod_id = $1 ORDER BY id",
+    [vodId]
+  );
+  const inputs = filesResult.rows.map(r => r.file_path).filter(f => fs.existsSync(f));
+  if (inputs.length === 0) {
+    throw new Error("No DVR files found for this recording");
+  }
+
+  const outputDir = path.join(VOD_STORAGE_PATH, vodId);
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  const videoPath = path.join(outputDir, "video.mp4");
+  const thumbnailPath = path.join(outputDir, "thumbnail.jpg");
+
+  // Reconnects inside the grace window leave one DVR file per publish, so
+  // join them in order without re-encoding
+  const listPath = path.join(outputDir, "inputs.txt");
+  await fs.promises.writeFile(listPath, inputs.map(f => "file '" + f.replace(/'/g, "'\\''") + "'").join("\n"));
+  await runProcess(FFMPEG_PATH, [
+    "-hide_banner", "-loglevel", "error", "-y",
+    "-f", "concat", "-safe", "0", "-i", listPath,
+    "-c", "copy", "-movflags", "+faststart",
+    videoPath
+  ]);
+  await fs.promises.unlink(listPath).catch(() => {});
+
+  const duration = await probeDuration(videoPath);
+
+  // A frame a little way in, so it isn't the encoder's black first frame
+  await runProcess(FFMPEG_PATH, [
+    "-hide_banner", "-loglevel", "error", "-y",
+    "-ss", String(Math.min(10, duration / 10)), "-i", videoPath,
+    "-frames:v", "1", "-vf", "scale=640:-2",
+    thumbnailPath
+  ]);
+
+  // Previews are nice to have; the replay is still usable without them
+  let previewsUrl: string | null = null;
+  try {
+    await generatePreviewThumbnails(videoPath, outputDir, duration);
+    previewsUrl = VOD_PUBLIC_URL + "/" + vodId + "/previews.vtt";
+  } catch (error) {
+    console.error("Live to VOD: Preview thumbnails failed for " + vodId + ":", error);
+  }
+
+  const { size } = await fs.promises.stat(videoPath);
+
+  await query(
+    `UPDATE vod_files
+     SET status = 'ready', file_path = $2, thumbnail_url = $3, duration_seconds = $4, file_size_bytes = $5,
+         is_published = $6, preview_thumbnails_url = $7, previews_attempted_at = NOW(), error = NULL, updated_at = NOW()
+     WHERE id = $1`,
+    [vodId, videoPath, VOD_PUBLIC_URL + "/" + vodId + "/thumbnail.jpg", Math.round(duration), size, vod.auto_publish_replay !== false, previewsUrl]
+  );
+  console.log("Live to VOD: Replay " + vodId + " ready (" + Math.round(duration) + "s, " + inputs.length + " file(s))");
+}
+
+// file_path when it is set (replays), otherwise the video in the VOD's
+// storage directory
+async function findVodVideo(vodId: string, filePath: string | null): Promise<string | null> {
+  if (filePath) {
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+  const dir = path.join(VOD_STORAGE_PATH, vodId);
+  const names = await fs.promises.readdir(dir).catch(() => [] as string[]);
+  const video = names.sort().find(name => UPLOAD_VIDEO_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+  return video ? path.join(dir, video) : null;
+}
+
+// Previews for an uploaded VOD. A failure is recorded as an attempt too, so a
+// file ffmpeg can't read isn't picked up by every sweep.
+async function processPreviews(vodId: string) {
+  const result = await query("SELECT file_path, duration_seconds FROM vod_files WHERE id = $1 AND status = 'ready'", [vodId]);
+  const vod = result.rows[0];
+  if (!vod) return;
+
+  let previewsUrl: string | null = null;
+  try {
+    const videoPath = await findVodVideo(vodId, vod.file_path);
+    if (!videoPath) {
+      throw new Error("Video file not found");
+    }
+    const duration = vod.duration_seconds > 0 ? vod.duration_seconds : await probeDuration(videoPath);
+    const outputDir = path.join(VOD_STORAGE_PATH, vodId);
+    await fs.promises.mkdir(outputDir, { recursive: true });
+    await generatePreviewThumbnails(videoPath, outputDir, duration);
+    previewsUrl = VOD_PUBLIC_URL + "/" + vodId + "/previews.vtt";
+    console.log("Live to VOD: Preview thumbnails ready for upload " + vodId);
+  } catch (error) {
+    console.error("Live to VOD: Preview thumbnails failed for " + vodId + ":", error);
+  }
+  if (!leading) return;
+
+  await query(
+    "UPDATE vod_files SET preview_thumbnails_url = $2, previews_attempted_at = NOW(), updated_at = NOW() WHERE id = $1",
+    [vodId, previewsUrl]
+  );
+}
+
+// For the VOD service, to queue previews as soon as an upload is ready rather
+// than waiting for the next sweep. Off the leader the sweep still finds it.
+export function generateUploadPreviews(vodId: string) {
+  if (!vodFilesAvailable) return;
+  enqueueVod(vodId, "previews");
+}
+
+async function sweepUploadPreviews() {
+  try {
+    const result = await query(
+      `SELECT id FROM vod_files
+       WHERE status = 'ready' AND source_stream_id IS NULL
+         AND preview_thumbnails_url IS NULL AND previews_attempted_at IS NULL
+       LIMIT $1`,
+      [PREVIEW_SWEEP_BATCH]
+    );
+    for (const row of result.rows) {
+      enqueueVod(row.id, "previews");
+    }
+  } catch (error) {
+    console.error("Live to VOD: Preview sweep failed:", error);
+  }
+}
+
+async function handleLifecycleEvent(event: string, payload: any) {
+  if (event === "recording:start") {
+    await startRecording(payload);
+  } else if (event === "recording:stop") {
+    await stopRecording(payload);
+  }
+}
+
+// Runs on the stream sync leader. Replays left in "processing" by a leader
+// that went away are picked up again.
+export async function startLiveToVod() {
+  if (!vodFilesAvailable) return;
+  leading = true;
+  addOutboxListener("liveToVod", handleLifecycleEvent);
+
+  const result = await query("SELECT id FROM vod_files WHERE status = 'processing' AND source_stream_id IS NOT NULL", []);
+  for (const row of result.rows) {
+    enqueueVod(row.id, "replay");
+  }
+
+  if (!previewSweepTimer) {
+    previewSweepTimer = setInterval(sweepUploadPreviews, PREVIEW_SWEEP_INTERVAL_MS);
+    sweepUploadPreviews();
+  }
+}
+
+export function stopLiveToVod() {
+  leading = false;
+  if (previewSweepTimer) {
+    clearInterval(previewSweepTimer);
+    previewSweepTimer = null;
+  }
+  for (const timer of settleTimers) {
+    clearTimeout(timer);
+  }
+  settleTimers.clear();
+  processingQueue.length = 0;
+  for (const child of runningProcesses) {
+    child.kill("SIGTERM");
+  }
+}
+
+// ==================== REPLAY SETTINGS API ====================
+// Mounted under /api/streams, e.g. PUT /api/streams/:id/replay-settings
+
+export const liveToVodRouter = Router();
+
+liveToVodRouter.put("/:id/replay-settings", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { auto_publish_replay } = req.body;
+    if (typeof auto_publish_replay !== "boolean") {
+      return res.status(400).json({ error: "auto_publish_replay must be true or false" });
+    }
+
+    const result = req.user!.role === "admin"
+      ? await query(
+        "UPDATE streams SET auto_publish_replay = $2, updated_at = NOW() WHERE id = $1 RETURNING id, auto_publish_replay",
+        [req.params.id, auto_publish_replay]
+      )
+      : await query(
+        "UPDATE streams SET auto_publish_replay = $3, updated_at = NOW() WHERE id = $1 AND user_id = $2 RETURNING id, auto_publish_replay",
+        [req.params.id, req.user!.id, auto_publish_replay]
+      );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error("Error updating replay settings:", error);
+    res.status(500).json({ error: "Failed to update replay settings" });
+  }
+});
+
+// ==================== VOD PREVIEWS API ====================
+// Mounted under /api/vod, e.g. GET /api/vod/:id/previews
+
+export const vodPreviewsRouter = Router();
+
+// Public, for players that only have the VOD id (the embed page)
+vodPreviewsRouter.get("/:id/previews", async (req, res) => {
+  try {
+    const result = await query(
+      "SELECT preview_thumbnails_url FROM vod_files WHERE id = $1 AND status = 'ready' AND is_published IS NOT FALSE",
+      [req.params.id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "VOD not found" });
+    }
+    res.json({ previewThumbnailsUrl: result.rows[0].preview_thumbnails_url || null });
+  } catch (error) {
+    console.error("Error getting VOD previews:", error);
+    res.status(500).json({ error: "Failed to get VOD previews" });
+  }
+});
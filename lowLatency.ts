@@ -0,0 +1,134 @@
+import { Router } from "express";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+
+// Per-stream latency modes. With low latency on, the player enables LL-HLS
+// (partial segments and blocking playlist reloads) and holds playback close
+// to a target latency, nudging the playback rate up to catch up. The origin
+// has to serve LL-HLS playlists for this to do anything; players fall back to
+// normal HLS when the playlist has no partial segments.
+//
+// Streams can instead be played over WebRTC, pulled from SRS with WHEP, for
+// sub-second latency (auctions, Q&A). SRS needs rtc_server enabled and
+// rtmp_to_rtc on in the vhost. Players fall back to HLS if negotiation fails.
+// WHEP_URL_TEMPLATE is where players post their offer; {stream} is replaced
+// with the stream key.
+const WHEP_URL_TEMPLATE = process.env.WHEP_URL_TEMPLATE || "/rtc/v1/whep/?app=live&stream={stream}";
+const LOW_LATENCY_TARGET_SECONDS = parseFloat(process.env.LOW_LATENCY_TARGET_SECONDS || "3");
+const MIN_TARGET_SECONDS = 1;
+const MAX_TARGET_SECONDS = 10;
+
+// The public status endpoint is hit by every viewer; settings rarely change.
+// Only streams that exist are cached, so made-up keys can't grow it, and it
+// is capped in case there are more streams than that.
+const SETTINGS_CACHE_MS = 15000;
+const SETTINGS_CACHE_MAX_ENTRIES = 10000;
+const settingsCache = new Map<string, { at: number; settings: LatencySettings }>();
+
+export interface LatencySettings {
+  lowLatency: boolean;
+  targetLatencySeconds: number;
+  webrtc: boolean;
+  whepUrl: string | null;
+}
+
+export async function ensureLowLatencySchema() {
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS low_latency BOOLEAN DEFAULT false", []);
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS target_latency_seconds REAL", []);
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS webrtc_playback BOOLEAN DEFAULT false", []);
+}
+
+export async function getLatencySettings(streamKey: string): Promise<LatencySettings> {
+  const cached = settingsCache.get(streamKey);
+  if (cached && Date.now() - cached.at < SETTINGS_CACHE_MS) {
+    return cached.settings;
+  }
+  settingsCache.delete(streamKey);
+
+  const result = await query(
+    "SELECT low_latency, target_latency_seconds, webrtc_playback FROM streams WHERE stream_key = $1",
+    [streamKey]
+  );
+  const row = result.rows[0];
+  const webrtc = row?.webrtc_playback === true;
+  const settings = {
+    lowLatency: row?.low_latency === true,
+    targetLatencySeconds: row?.target_latency_seconds || LOW_LATENCY_TARGET_SECONDS,
+    webrtc,
+    whepUrl: webrtc ? WHEP_URL_TEMPLATE.replace("{stream}", encodeURIComponent(streamKey)) : null
+  };
+  if (row) {
+    cacheSettings(streamKey, settings);
+  }
+  return settings;
+}
+
+function cacheSettings(streamKey: string, settings: LatencySettings) {
+  const now = Date.now();
+  if (settingsCache.size >= SETTINGS_CACHE_MAX_ENTRIES) {
+    for (const [key, entry] of settingsCache) {
+      if (now - entry.at >= SETTINGS_CACHE_MS) {
+        settingsCache.delete(key);
+      }
+    }
+  }
+  // Entries are in insertion order, so the first is the oldest
+  if (settingsCache.size >= SETTINGS_CACHE_MAX_ENTRIES) {
+    settingsCache.delete(settingsCache.keys().next().value!);
+  }
+  settingsCache.set(streamKey, { at: now, settings });
+}
+
+// ==================== LATENCY SETTINGS API ====================
+// Mounted under /api/streams, e.g. PUT /api/streams/:id/latency-settings
+
+export const lowLatencyRouter = Router();
+
+lowLatencyRouter.put("/:id/latency-settings", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { low_latency, target_latency_seconds, webrtc_playback } = req.body;
+    if (low_latency !== undefined && typeof low_latency !== "boolean") {
+      return res.status(400).json({ error: "low_latency must be true or false" });
+    }
+    if (webrtc_playback !== undefined && typeof webrtc_playback !== "boolean") {
+      return res.status(400).json({ error: "webrtc_playback must be true or false" });
+    }
+    if (target_latency_seconds !== undefined && target_latency_seconds !== null &&
+        (typeof target_latency_seconds !== "number" || target_latency_seconds < MIN_TARGET_SECONDS || target_latency_seconds > MAX_TARGET_SECONDS)) {
+      return res.status(400).json({ error: "target_latency_seconds must be between " + MIN_TARGET_SECONDS + " and " + MAX_TARGET_SECONDS });
+    }
+
+    // undefined leaves a setting alone; a null target goes back to the default
+    const result = req.user!.role === "admin"
+      ? await query(
+        `UPDATE streams
+         SET low_latency = COALESCE($2, low_latency),
+             target_latency_seconds = CASE WHEN $3 THEN $4::real ELSE target_latency_seconds END,
+             webrtc_playback = COALESCE($5, webrtc_playback),
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, stream_key, low_latency, target_latency_seconds, webrtc_playback`,
+        [req.params.id, low_latency ?? null, target_latency_seconds !== undefined, target_latency_seconds ?? null, webrtc_playback ?? null]
+      )
+      : await query(
+        `UPDATE streams
+         SET low_latency = COALESCE($3, low_latency),
+             target_latency_seconds = CASE WHEN $4 THEN $5::real ELSE target_latency_seconds END,
+             webrtc_playback = COALESCE($6, webrtc_playback),
+             updated_at = NOW()
+         WHERE id = $1 AND user_id = $2
+         RETURNING id, stream_key, low_latency, target_latency_seconds, webrtc_playback`,
+        [req.params.id, req.user!.id, low_latency ?? null, target_latency_seconds !== undefined, target_latency_seconds ?? null, webrtc_playback ?? null]
+      );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const { stream_key, ...settings } = result.rows[0];
+    settingsCache.delete(stream_key);
+    res.json({ ...settings, target_latency_seconds: settings.target_latency_seconds || LOW_LATENCY_TARGET_SECONDS });
+  } catch (error) {
+    console.error("Error updating latency settings:", error);
+    res.status(500).json({ error: "Failed to update latency settings" });
+  }
+});
@@ -0,0 +1,141 @@
+import { Router } from "express";
+
+// Minimal Prometheus text exposition (format 0.0.4). Counters and histograms
+// are updated where things happen; gauges that mirror existing state are read
+// by collectors when /metrics is scraped.
+//
+// Mounted at /metrics. Set METRICS_TOKEN to require "Authorization: Bearer
+// <token>" from the scraper.
+const METRICS_TOKEN = process.env.METRICS_TOKEN || "";
+
+type MetricType = "counter" | "gauge" | "histogram";
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+  type: MetricType;
+  help: string;
+  buckets?: number[];
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+const definitions = new Map<string, MetricDefinition>();
+const values = new Map<string, Map<string, number | HistogramValue>>();
+const collectors: (() => Promise<void> | void)[] = [];
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function labelKey(labels: Labels = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map(k => k + "=\"" + String(labels[k]).replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"") + "\"")
+    .join(",");
+}
+
+function series(name: string): Map<string, number | HistogramValue> {
+  let existing = values.get(name);
+  if (!existing) {
+    existing = new Map();
+    values.set(name, existing);
+  }
+  return existing;
+}
+
+export function defineMetric(name: string, type: MetricType, help: string, buckets?: number[]) {
+  if (definitions.has(name)) return;
+  definitions.set(name, { type, help, buckets: type === "histogram" ? buckets || DEFAULT_BUCKETS : undefined });
+}
+
+export function incCounter(name: string, labels?: Labels, amount: number = 1) {
+  const metric = series(name);
+  const key = labelKey(labels);
+  metric.set(key, ((metric.get(key) as number) || 0) + amount);
+}
+
+export function setGauge(name: string, labels: Labels | undefined, value: number) {
+  series(name).set(labelKey(labels), value);
+}
+
+// Gauges for label sets that can disappear (e.g. streams that ended) should
+// be reset before being filled in again
+export function resetGauge(name: string) {
+  series(name).clear();
+}
+
+export function observeHistogram(name: string, value: number, labels?: Labels) {
+  const definition = definitions.get(name);
+  const bucketBounds = definition?.buckets || DEFAULT_BUCKETS;
+  const metric = series(name);
+  const key = labelKey(labels);
+
+  let histogram = metric.get(key) as HistogramValue | undefined;
+  if (!histogram) {
+    histogram = { buckets: bucketBounds.map(() => 0), sum: 0, count: 0 };
+    metric.set(key, histogram);
+  }
+  bucketBounds.forEach((bound, i) => {
+    if (value <= bound) histogram!.buckets[i]++;
+  });
+  histogram.sum += value;
+  histogram.count++;
+}
+
+export function addMetricsCollector(collector: () => Promise<void> | void) {
+  collectors.push(collector);
+}
+
+function withLabel(key: string, extra: string): string {
+  return "{" + (key ? key + "," : "") + extra + "}";
+}
+
+export async function renderMetrics(): Promise<string> {
+  for (const collector of collectors) {
+    try {
+      await collector();
+    } catch (error) {
+      console.error("Metrics collector error:", error);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const [name, definition] of definitions) {
+    lines.push("# HELP " + name + " " + definition.help);
+    lines.push("# TYPE " + name + " " + definition.type);
+
+    for (const [key, value] of values.get(name) || []) {
+      if (definition.type !== "histogram") {
+        lines.push(name + (key ? "{" + key + "}" : "") + " " + value);
+        continue;
+      }
+
+      const histogram = value as HistogramValue;
+      definition.buckets!.forEach((bound, i) => {
+        lines.push(name + "_bucket" + withLabel(key, "le=\"" + bound + "\"") + " " + histogram.buckets[i]);
+      });
+      lines.push(name + "_bucket" + withLabel(key, "le=\"+Inf\"") + " " + histogram.count);
+      lines.push(name + "_sum" + (key ? "{" + key + "}" : "") + " " + histogram.sum);
+      lines.push(name + "_count" + (key ? "{" + key + "}" : "") + " " + histogram.count);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+export const metricsRouter = Router();
+
+metricsRouter.get("/", async (req, res) => {
+  if (METRICS_TOKEN && req.headers.authorization !== "Bearer " + METRICS_TOKEN) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    res.set("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    res.send(await renderMetrics());
+  } catch (error) {
+    console.error("Error rendering metrics:", error);
+    res.status(500).json({ error: "Failed to render metrics" });
+  }
+});
@@ -0,0 +1,66 @@
+import * as dns from "dns";
+import * as net from "net";
+
+// Guards for connections to customer-chosen hosts (webhook URLs, restream
+// destinations), which must not reach anything on our side: loopback,
+// private, link-local, multicast and reserved addresses are refused.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+] as [string, number][]) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]
+] as [string, number][]) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// URL hostnames keep the brackets around IPv6 literals
+export function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+// Whether a host, an IP literal or a name, may be connected to. Names must
+// resolve, and every address they resolve to must be public.
+export async function checkPublicHost(host: string): Promise<"public" | "private" | "unresolved"> {
+  if (net.isIP(host)) {
+    return isPublicAddress(host) ? "public" : "private";
+  }
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(a => isPublicAddress(a.address)) ? "public" : "private";
+  } catch (error) {
+    return "unresolved";
+  }
+}
+
+// DNS lookup for outgoing requests that fails instead of returning a private
+// address. Runs as the socket connects, so it checks the address actually
+// used.
+export function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, "");
+    }
+    if (addresses.length === 0 || !addresses.every(a => isPublicAddress(a.address))) {
+      return callback(new Error(hostname + " resolves to a private address"), "");
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import { Router } from "express";
+import { getStreamState } from "./redis";
+import { getScheduleInfo, listUpcomingStreams } from "./scheduledStreams";
+import { getLatencySettings } from "./lowLatency";
+
+// Unauthenticated stream info for the player and embeds, mounted next to the
+// other /api/streams/public routes
+export const publicStreamRouter = Router();
+
+// How far back viewers can scrub a live stream. This only tells the player;
+// SRS must keep that much in its playlists, so set hls_window (and
+// hls_dispose) on the origins to at least the same number of seconds.
+const DVR_WINDOW_SECONDS = parseInt(process.env.DVR_WINDOW_SECONDS || "0", 10);
+
+// Upcoming scheduled streams, soonest first
+publicStreamRouter.get("/schedule", async (req, res) => {
+  try {
+    res.json(await listUpcomingStreams());
+  } catch (error) {
+    console.error("Error getting stream schedule:", error);
+    res.status(500).json({ error: "Failed to get stream schedule" });
+  }
+});
+
+// Current live state: "live", "reconnecting" (encoder dropped, inside the
+// grace window), "scheduled", "no_show" or "offline". Also pushed to players
+// by the viewer channel.
+export async function getPublicStreamStatus(streamKey: string) {
+  const [state, latency] = await Promise.all([getStreamState(streamKey), getLatencySettings(streamKey)]);
+  if (state) {
+    return {
+      status: state.status,
+      reconnectingSince: state.reconnectingSince || null,
+      dvrWindowSeconds: DVR_WINDOW_SECONDS,
+      ...latency
+    };
+  }
+
+  const schedule = await getScheduleInfo(streamKey);
+  return {
+    status: schedule?.status || "offline",
+    reconnectingSince: null,
+    title: schedule?.title || null,
+    scheduledStart: schedule?.scheduled_start || null,
+    dvrWindowSeconds: DVR_WINDOW_SECONDS,
+    ...latency
+  };
+}
+
+publicStreamRouter.get("/:streamKey/status", async (req, res) => {
+  try {
+    res.json(await getPublicStreamStatus(req.params.streamKey));
+  } catch (error) {
+    console.error("Error getting stream status:", error);
+    res.status(500).json({ error: "Failed to get stream status" });
+  }
+});
@@ -0,0 +1,196 @@
+import { Router } from "express";
+import * as net from "net";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+import { findOtherPublisher } from "./streamSync";
+import { checkIngestKey, IngestKind } from "./streamKeys";
+
+// Publish authorization, run from the on_publish hook before SRS accepts an
+// encoder. Keys must exist in `streams` and not be disabled, banned or
+// expired. Encoders can be limited to IP ranges per stream, and/or across
+// all streams with PUBLISH_IP_ALLOWLIST (comma-separated addresses or CIDRs).
+const PUBLISH_IP_ALLOWLIST = (process.env.PUBLISH_IP_ALLOWLIST || "")
+  .split(",")
+  .map(s => s.trim())
+  .filter(Boolean);
+
+export type PublishDecision = { allowed: true; ingest: IngestKind } | { allowed: false; reason: string };
+
+export async function ensurePublishAuthSchema() {
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS publish_disabled BOOLEAN DEFAULT false", []);
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS banned_at TIMESTAMP", []);
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS ban_reason TEXT", []);
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS key_expires_at TIMESTAMP", []);
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS publish_ip_allowlist TEXT[]", []);
+}
+
+// Entries are plain addresses or CIDR ranges, IPv4 or IPv6
+function parseIpRange(entry: string): { address: string; prefix: number; family: "ipv4" | "ipv6" } | null {
+  const [address, prefixText] = entry.split("/");
+  const version = net.isIP(address);
+  if (version === 0) return null;
+
+  const family = version === 4 ? "ipv4" : "ipv6";
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? maxPrefix : parseInt(prefixText, 10);
+  if (isNaN(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+
+  return { address, prefix, family };
+}
+
+export function isValidIpRange(entry: string): boolean {
+  return parseIpRange(entry) !== null;
+}
+
+function ipAllowed(ip: string, ranges: string[]): boolean {
+  // SRS reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+  const address = ip.startsWith("::ffff:") && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const family = net.isIPv4(address) ? "ipv4" : net.isIPv6(address) ? "ipv6" : null;
+  if (!family) return false;
+
+  const blockList = new net.BlockList();
+  for (const entry of ranges) {
+    const range = parseIpRange(entry);
+    if (range) {
+      blockList.addSubnet(range.address, range.prefix, range.family);
+    }
+  }
+  return blockList.check(address, family);
+}
+
+// Fails closed: if the key can't be checked, the encoder is refused and will
+// retry, rather than letting an unknown key publish
+export async function authorizePublish(streamKey: string, ip: string, nodeId?: string, param?: string): Promise<PublishDecision> {
+  try {
+    if (PUBLISH_IP_ALLOWLIST.length > 0 && !ipAllowed(ip, PUBLISH_IP_ALLOWLIST)) {
+      return { allowed: false, reason: "IP " + ip + " is not allowed to publish" };
+    }
+
+    const result = await query(
+      "SELECT id, publish_disabled, banned_at, key_expires_at, publish_ip_allowlist FROM streams WHERE stream_key = $1",
+      [streamKey]
+    );
+    const stream = result.rows[0];
+
+    if (!stream) {
+      return { allowed: false, reason: "Unknown stream key" };
+    }
+    if (stream.banned_at) {
+      return { allowed: false, reason: "Stream key is banned" };
+    }
+    if (stream.publish_disabled) {
+      return { allowed: false, reason: "Stream key is disabled" };
+    }
+    if (stream.key_expires_at && new Date(stream.key_expires_at).getTime() <= Date.now()) {
+      return { allowed: false, reason: "Stream key has expired" };
+    }
+    if (stream.publish_ip_allowlist && stream.publish_ip_allowlist.length > 0 && !ipAllowed(ip, stream.publish_ip_allowlist)) {
+      return { allowed: false, reason: "IP " + ip + " is not allowed to publish to this stream" };
+    }
+
+    const ingest = await checkIngestKey(stream.id, param);
+    if (!ingest.ok) {
+      return { allowed: false, reason: ingest.reason };
+    }
+
+    // SRS already refuses a second publisher for a stream on the same
+    // origin; this covers the same key arriving at a different one. The
+    // primary and backup keys may publish side by side.
+    if (nodeId) {
+      const other = await findOtherPublisher(streamKey, nodeId, ingest.kind);
+      if (other) {
+        return { allowed: false, reason: "The " + ingest.kind + " key is already publishing on " + other.node };
+      }
+    }
+
+    return { allowed: true, ingest: ingest.kind };
+  } catch (error) {
+    console.error("Publish authorization error for " + streamKey + ":", error);
+    return { allowed: false, reason: "Authorization unavailable" };
+  }
+}
+
+// ==================== PUBLISH SETTINGS API ====================
+// Mounted under /api/streams, e.g. PUT /api/streams/:id/publish-settings
+
+export const publishAuthRouter = Router();
+
+publishAuthRouter.get("/:id/publish-settings", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const result = await query(
+      `SELECT id, user_id, publish_disabled, banned_at, ban_reason, key_expires_at, publish_ip_allowlist, keyless_publish_until
+       FROM streams WHERE id = $1`,
+      [req.params.id]
+    );
+    const stream = result.rows[0];
+    if (!stream || (req.user!.role !== "admin" && stream.user_id !== req.user!.id)) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const { user_id, ...settings } = stream;
+    res.json(settings);
+  } catch (error) {
+    console.error("Error fetching publish settings:", error);
+    res.status(500).json({ error: "Failed to fetch publish settings" });
+  }
+});
+
+// Owners can disable their key, set an expiry, limit encoder IPs and end or
+// extend the period their encoders may publish without an ingest key. Only
+// admins can ban or unban.
+publishAuthRouter.put("/:id/publish-settings", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const isAdmin = req.user!.role === "admin";
+    const existing = await query("SELECT user_id FROM streams WHERE id = $1", [req.params.id]);
+    if (existing.rows.length === 0 || (!isAdmin && existing.rows[0].user_id !== req.user!.id)) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const { publish_disabled, key_expires_at, publish_ip_allowlist, keyless_publish_until, banned, ban_reason } = req.body;
+
+    if (banned !== undefined && !isAdmin) {
+      return res.status(403).json({ error: "Only admins can ban stream keys" });
+    }
+    if (key_expires_at !== undefined && key_expires_at !== null && isNaN(new Date(key_expires_at).getTime())) {
+      return res.status(400).json({ error: "key_expires_at must be a date or null" });
+    }
+    if (keyless_publish_until !== undefined && keyless_publish_until !== null && isNaN(new Date(keyless_publish_until).getTime())) {
+      return res.status(400).json({ error: "keyless_publish_until must be a date or null" });
+    }
+    if (publish_ip_allowlist !== undefined && publish_ip_allowlist !== null &&
+        (!Array.isArray(publish_ip_allowlist) || !publish_ip_allowlist.every(e => typeof e === "string" && isValidIpRange(e)))) {
+      return res.status(400).json({ error: "publish_ip_allowlist must be a list of IP addresses or CIDR ranges" });
+    }
+
+    // undefined leaves a setting alone; null clears expiry, allowlist and
+    // keyless publishing
+    const result = await query(
+      `UPDATE streams
+       SET publish_disabled = COALESCE($2, publish_disabled),
+           key_expires_at = CASE WHEN $3 THEN $4::timestamp ELSE key_expires_at END,
+           publish_ip_allowlist = CASE WHEN $5 THEN $6::text[] ELSE publish_ip_allowlist END,
+           banned_at = CASE WHEN $7::boolean IS NULL THEN banned_at WHEN $7 THEN COALESCE(banned_at, NOW()) ELSE NULL END,
+           ban_reason = CASE WHEN $7::boolean IS NULL THEN ban_reason WHEN $7 THEN $8 ELSE NULL END,
+           keyless_publish_until = CASE WHEN $9 THEN $10::timestamp ELSE keyless_publish_until END,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING id, publish_disabled, banned_at, ban_reason, key_expires_at, publish_ip_allowlist, keyless_publish_until`,
+      [
+        req.params.id,
+        publish_disabled ?? null,
+        key_expires_at !== undefined,
+        key_expires_at ?? null,
+        publish_ip_allowlist !== undefined,
+        publish_ip_allowlist && publish_ip_allowlist.length > 0 ? publish_ip_allowlist : null,
+        banned ?? null,
+        ban_reason || null,
+        keyless_publish_until !== undefined,
+        keyless_publish_until ?? null
+      ]
+    );
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error("Error updating publish settings:", error);
+    res.status(500).json({ error: "Failed to update publish settings" });
+  }
+});
@@ -0,0 +1,285 @@
+import { Router } from "express";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+
+// Viewer quality of experience. Each playback session in VideoPlayer sends
+// beacons carrying its running totals (startup time, rebuffering, time at
+// each quality, level switches, fatal errors, dropped frames). Totals only
+// grow, so a session's row keeps the largest value seen, which makes late or
+// repeated beacons harmless.
+const QOE_RETENTION_DAYS = parseInt(process.env.QOE_RETENTION_DAYS || "30", 10);
+const MAX_BEACONS_PER_REQUEST = 20;
+const MAX_SESSION_MS = 7 * 24 * 60 * 60 * 1000; // Anything longer is a bogus beacon
+
+let lastCleanupAt = 0;
+
+export async function ensureQoeSchema() {
+  await query(`
+    CREATE TABLE IF NOT EXISTS qoe_sessions (
+      session_id UUID PRIMARY KEY,
+      content_type VARCHAR(10) NOT NULL,
+      content_id VARCHAR(255) NOT NULL,
+      device VARCHAR(10) NOT NULL,
+      startup_ms INTEGER,
+      watch_ms BIGINT DEFAULT 0,
+      rebuffer_count INTEGER DEFAULT 0,
+      rebuffer_ms BIGINT DEFAULT 0,
+      level_switches INTEGER DEFAULT 0,
+      level_time_ms JSONB DEFAULT '{}',
+      fatal_errors INTEGER DEFAULT 0,
+      last_error VARCHAR(255),
+      dropped_frames INTEGER DEFAULT 0,
+      total_frames INTEGER DEFAULT 0,
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `, []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_qoe_sessions_content ON qoe_sessions(content_type, content_id, started_at)",
+    []
+  );
+}
+
+interface QoeBeacon {
+  sessionId: string;
+  contentType: "live" | "vod";
+  contentId: string;
+  device: "mobile" | "desktop";
+  startupMs: number | null;
+  watchMs: number;
+  rebufferCount: number;
+  rebufferMs: number;
+  levelSwitches: number;
+  levelTimeMs: Record<string, number>;
+  fatalErrors: number;
+  lastError: string | null;
+  droppedFrames: number;
+  totalFrames: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function count(value: any, max: number = MAX_SESSION_MS): number {
+  const n = Math.round(Number(value));
+  return isFinite(n) && n > 0 ? Math.min(n, max) : 0;
+}
+
+// Beacons come from anyone who can load the player, so take nothing as given
+function parseBeacon(body: any): QoeBeacon | null {
+  if (!body || typeof body !== "object") return null;
+  if (typeof body.sessionId !== "string" || !UUID_PATTERN.test(body.sessionId)) return null;
+  if (body.contentType !== "live" && body.contentType !== "vod") return null;
+  if (typeof body.contentId !== "string" || body.contentId.length === 0 || body.contentId.length > 255) return null;
+
+  const levelTimeMs: Record<string, number> = {};
+  if (body.levelTimeMs && typeof body.levelTimeMs === "object") {
+    for (const [height, ms] of Object.entries(body.levelTimeMs).slice(0, 20)) {
+      if (/^\d{1,4}$/.test(height)) {
+        levelTimeMs[height] = count(ms);
+      }
+    }
+  }
+
+  return {
+    sessionId: body.sessionId,
+    contentType: body.contentType,
+    contentId: body.contentId,
+    device: body.device === "mobile" ? "mobile" : "desktop",
+    startupMs: body.startupMs === null || body.startupMs === undefined ? null : count(body.startupMs, 10 * 60 * 1000),
+    watchMs: count(body.watchMs),
+    rebufferCount: count(body.rebufferCount, 100000),
+    rebufferMs: count(body.rebufferMs),
+    levelSwitches: count(body.levelSwitches, 100000),
+    levelTimeMs,
+    fatalErrors: count(body.fatalErrors, 100000),
+    lastError: typeof body.lastError === "string" ? body.lastError.slice(0, 255) : null,
+    droppedFrames: count(body.droppedFrames, 1e9),
+    totalFrames: count(body.totalFrames, 1e9)
+  };
+}
+
+async function recordBeacon(beacon: QoeBeacon) {
+  await query(
+    `INSERT INTO qoe_sessions
+      (session_id, content_type, content_id, device, startup_ms, watch_ms, rebuffer_count, rebuffer_ms,
+       level_switches, level_time_ms, fatal_errors, last_error, dropped_frames, total_frames)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     ON CONFLICT (session_id) DO UPDATE SET
+       startup_ms = COALESCE(qoe_sessions.startup_ms, EXCLUDED.startup_ms),
+       watch_ms = GREATEST(qoe_sessions.watch_ms, EXCLUDED.watch_ms),
+       rebuffer_count = GREATEST(qoe_sessions.rebuffer_count, EXCLUDED.rebuffer_count),
+       rebuffer_ms = GREATEST(qoe_sessions.rebuffer_ms, EXCLUDED.rebuffer_ms),
+       level_switches = GREATEST(qoe_sessions.level_switches, EXCLUDED.level_switches),
+       level_time_ms = CASE WHEN EXCLUDED.watch_ms >= qoe_sessions.watch_ms
+         THEN EXCLUDED.level_time_ms ELSE qoe_sessions.level_time_ms END,
+       fatal_errors = GREATEST(qoe_sessions.fatal_errors, EXCLUDED.fatal_errors),
+       last_error = COALESCE(EXCLUDED.last_error, qoe_sessions.last_error),
+       dropped_frames = GREATEST(qoe_sessions.dropped_frames, EXCLUDED.dropped_frames),
+       total_frames = GREATEST(qoe_sessions.total_frames, EXCLUDED.total_frames),
+       updated_at = NOW()
+     WHERE qoe_sessions.content_id = EXCLUDED.content_id`,
+    [
+      beacon.sessionId,
+      beacon.contentType,
+      beacon.contentId,
+      beacon.device,
+      beacon.startupMs,
+      beacon.watchMs,
+      beacon.rebufferCount,
+      beacon.rebufferMs,
+      beacon.levelSwitches,
+      JSON.stringify(beacon.levelTimeMs),
+      beacon.fatalErrors,
+      beacon.lastError,
+      beacon.droppedFrames,
+      beacon.totalFrames
+    ]
+  );
+}
+
+// Aggregates per device type over the sessions of one stream or VOD
+async function buildReport(contentType: "live" | "vod", contentId: string, since: Date, rebufferThreshold: number) {
+  const summary = await query(
+    `SELECT device,
+            COUNT(*) AS sessions,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY startup_ms) AS startup_ms_p50,
+            percentile_cont(0.95) WITHIN GROUP (ORDER BY startup_ms) AS startup_ms_p95,
+            AVG(rebuffer_count) AS avg_rebuffer_count,
+            COUNT(*) FILTER (WHERE rebuffer_count > 0)::float / COUNT(*) AS rebuffered_ratio,
+            COUNT(*) FILTER (WHERE rebuffer_count > $4)::float / COUNT(*) AS rebuffered_over_threshold_ratio,
+            SUM(rebuffer_ms)::float / NULLIF(SUM(watch_ms + rebuffer_ms), 0) AS rebuffer_time_ratio,
+            AVG(level_switches) AS avg_level_switches,
+            SUM(level_switches)::float / NULLIF(SUM(watch_ms) / 60000.0, 0) AS level_switches_per_minute,
+            COUNT(*) FILTER (WHERE fatal_errors > 0)::float / COUNT(*) AS fatal_error_ratio,
+            SUM(dropped_frames)::float / NULLIF(SUM(total_frames), 0) AS dropped_frame_ratio,
+            SUM(watch_ms) AS watch_ms
+     FROM qoe_sessions
+     WHERE content_type = $1 AND content_id = $2 AND started_at >= $3
+     GROUP BY device
+     ORDER BY device`,
+    [contentType, contentId, since, rebufferThreshold]
+  );
+
+  const levels = await query(
+    `SELECT s.device, l.key AS height, SUM(l.value::bigint) AS ms
+     FROM qoe_sessions s, jsonb_each_text(s.level_time_ms) l
+     WHERE s.content_type = $1 AND s.content_id = $2 AND s.started_at >= $3
+     GROUP BY s.device, l.key`,
+    [contentType, contentId, since]
+  );
+
+  const errors = await query(
+    `SELECT last_error AS error, COUNT(*) AS sessions
+     FROM qoe_sessions
+     WHERE content_type = $1 AND content_id = $2 AND started_at >= $3 AND fatal_errors > 0
+     GROUP BY last_error
+     ORDER BY sessions DESC
+     LIMIT 10`,
+    [contentType, contentId, since]
+  );
+
+  return {
+    since,
+    rebufferThreshold,
+    devices: summary.rows.map(row => {
+      const deviceLevels = levels.rows.filter(l => l.device === row.device);
+      const levelTotal = deviceLevels.reduce((sum, l) => sum + Number(l.ms), 0);
+      return {
+        ...row,
+        sessions: Number(row.sessions),
+        watch_ms: Number(row.watch_ms),
+        level_time_share: Object.fromEntries(
+          deviceLevels.map(l => [l.height, levelTotal > 0 ? Number(l.ms) / levelTotal : 0])
+        )
+      };
+    }),
+    topErrors: errors.rows.map(row => ({ error: row.error, sessions: Number(row.sessions) }))
+  };
+}
+
+function parseReportOptions(req: AuthRequest): { since: Date; rebufferThreshold: number } | null {
+  const days = req.query.days !== undefined ? parseInt(String(req.query.days), 10) : 7;
+  const rebufferThreshold = req.query.rebuffer_threshold !== undefined
+    ? parseInt(String(req.query.rebuffer_threshold), 10)
+    : 3;
+  if (isNaN(days) || days < 1 || days > QOE_RETENTION_DAYS || isNaN(rebufferThreshold) || rebufferThreshold < 0) {
+    return null;
+  }
+  return { since: new Date(Date.now() - days * 24 * 60 * 60 * 1000), rebufferThreshold };
+}
+
+// ==================== QOE API ====================
+// Mounted at /api/qoe
+
+export const qoeRouter = Router();
+
+// Public: beacons arrive from navigator.sendBeacon, one or a batch per request
+qoeRouter.post("/beacons", async (req, res) => {
+  try {
+    const body = Array.isArray(req.body?.beacons) ? req.body.beacons : [req.body];
+    const beacons = body.slice(0, MAX_BEACONS_PER_REQUEST).map(parseBeacon).filter(Boolean) as QoeBeacon[];
+    if (beacons.length === 0) {
+      return res.status(400).json({ error: "No valid beacons" });
+    }
+
+    for (const beacon of beacons) {
+      await recordBeacon(beacon);
+    }
+
+    const now = Date.now();
+    if (now - lastCleanupAt > 60 * 60 * 1000) {
+      lastCleanupAt = now;
+      query(
+        "DELETE FROM qoe_sessions WHERE updated_at < NOW() - make_interval(days => $1)",
+        [QOE_RETENTION_DAYS]
+      ).catch(console.error);
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error recording QoE beacons:", error);
+    res.status(500).json({ error: "Failed to record beacons" });
+  }
+});
+
+// QoE report for a live stream - owner or admin
+qoeRouter.get("/streams/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const options = parseReportOptions(req);
+    if (!options) {
+      return res.status(400).json({ error: "days must be 1-" + QOE_RETENTION_DAYS + " and rebuffer_threshold zero or more" });
+    }
+
+    const result = await query("SELECT stream_key, user_id FROM streams WHERE id = $1", [req.params.id]);
+    const stream = result.rows[0];
+    if (!stream || (req.user!.role !== "admin" && stream.user_id !== req.user!.id)) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    res.json(await buildReport("live", stream.stream_key, options.since, options.rebufferThreshold));
+  } catch (error) {
+    console.error("Error building stream QoE report:", error);
+    res.status(500).json({ error: "Failed to build QoE report" });
+  }
+});
+
+// QoE report for a VOD - owner or admin
+qoeRouter.get("/vod/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const options = parseReportOptions(req);
+    if (!options) {
+      return res.status(400).json({ error: "days must be 1-" + QOE_RETENTION_DAYS + " and rebuffer_threshold zero or more" });
+    }
+
+    const result = await query("SELECT id, user_id FROM vod_files WHERE id = $1", [req.params.id]);
+    const vod = result.rows[0];
+    if (!vod || (req.user!.role !== "admin" && vod.user_id !== req.user!.id)) {
+      return res.status(404).json({ error: "VOD not found" });
+    }
+
+    res.json(await buildReport("vod", vod.id, options.since, options.rebufferThreshold));
+  } catch (error) {
+    console.error("Error building VOD QoE report:", error);
+    res.status(500).json({ error: "Failed to build QoE report" });
+  }
+});
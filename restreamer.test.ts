@@ -0,0 +1,260 @@
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+
+// Restream workers run against local stand-ins: TCP listeners in place of the
+// SRS origins and the destination, and an "ffmpeg" that connects to its input
+// and output the way an ffmpeg copy would and exits when either side drops.
+// The stand-ins are on loopback, which the destination guard refuses, so it
+// lets them through unless a test turns that off.
+const mockQuery = jest.fn();
+const mockGetStreamState = jest.fn();
+const mockListeners: ((event: string, payload: any) => Promise<void>)[] = [];
+let mockAllowLoopback = true;
+
+jest.mock("./database", () => ({
+  query: (...args: any[]) => mockQuery(...args)
+}), { virtual: true });
+jest.mock("./redis", () => ({
+  getStreamState: (...args: any[]) => mockGetStreamState(...args)
+}), { virtual: true });
+jest.mock("./privateAddresses", () => {
+  const actual = jest.requireActual("./privateAddresses");
+  return {
+    ...actual,
+    checkPublicHost: (host: string) => mockAllowLoopback && host === "127.0.0.1"
+      ? Promise.resolve("public")
+      : actual.checkPublicHost(host)
+  };
+});
+jest.mock("./eventOutbox", () => ({
+  addOutboxListener: (_: string, listener: any) => {
+    if (!mockListeners.includes(listener)) mockListeners.push(listener);
+  },
+  kickOutbox: () => {}
+}));
+
+const FAKE_FFMPEG = `#!/usr/bin/env node
+const net = require("net");
+const args = process.argv.slice(2);
+const connect = (value) => {
+  const url = new URL(value);
+  const socket = net.connect(Number(url.port), url.hostname, () => socket.write(url.pathname + "\\n"));
+  socket.on("error", (error) => {
+    process.stderr.write(url.href + ": " + error.message + "\\n");
+    process.exit(1);
+  });
+  socket.on("close", () => {
+    process.stderr.write(url.href + ": Connection closed\\n");
+    process.exit(1);
+  });
+};
+connect(args[args.indexOf("-i") + 1]);
+connect(args[args.length - 1]);
+process.on("SIGTERM", () => process.exit(0));
+`;
+
+interface RtmpStandIn {
+  port: number;
+  connections: { path: string; closed: boolean; socket: net.Socket }[];
+  open: () => string[];
+  drop: () => void;
+  close: () => Promise<void>;
+}
+
+// Accepts connections and records the path each client asks for
+async function createRtmpStandIn(): Promise<RtmpStandIn> {
+  const standIn: RtmpStandIn = {
+    port: 0,
+    connections: [],
+    open: () => standIn.connections.filter(c => !c.closed && c.path).map(c => c.path),
+    drop: () => standIn.connections.forEach(c => c.socket.destroy()),
+    close: () => new Promise<void>(resolve => {
+      standIn.drop();
+      server.close(() => resolve());
+    })
+  };
+
+  const server = net.createServer(socket => {
+    const connection = { path: "", closed: false, socket };
+    standIn.connections.push(connection);
+    socket.setEncoding("utf8");
+    socket.on("data", (data: string) => {
+      connection.path = connection.path || data.trim();
+    });
+    socket.on("close", () => {
+      connection.closed = true;
+    });
+    socket.on("error", () => {});
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  standIn.port = (server.address() as net.AddressInfo).port;
+  return standIn;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out after " + timeoutMs + "ms");
+    }
+    await sleep(10);
+  }
+}
+
+describe("restreamer", () => {
+  let tempDir: string;
+  let ffmpegPath: string;
+  let originA: RtmpStandIn;
+  let originB: RtmpStandIn;
+  let fallback: RtmpStandIn;
+  let destination: RtmpStandIn;
+  let restreamer: typeof import("./restreamer");
+
+  const emit = async (event: string, payload: any) => {
+    for (const listener of mockListeners) {
+      await listener(event, payload);
+    }
+  };
+
+  const statuses = () => mockQuery.mock.calls
+    .filter(([sql]) => sql.includes("UPDATE restream_destinations"))
+    .map(([, params]) => params[1]);
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "restreamer-test-"));
+    ffmpegPath = path.join(tempDir, "ffmpeg");
+    fs.writeFileSync(ffmpegPath, FAKE_FFMPEG, { mode: 0o755 });
+
+    originA = await createRtmpStandIn();
+    originB = await createRtmpStandIn();
+    fallback = await createRtmpStandIn();
+    destination = await createRtmpStandIn();
+
+    process.env.FFMPEG_PATH = ffmpegPath;
+    process.env.RESTREAM_SOURCE_URL = "rtmp://127.0.0.1:" + fallback.port + "/live";
+    process.env.RESTREAM_SOURCE_URLS = "origin-a=rtmp://127.0.0.1:" + originA.port + "/live,"
+      + "origin-b=rtmp://127.0.0.1:" + originB.port + "/live/";
+    restreamer = require("./restreamer");
+  });
+
+  afterAll(async () => {
+    await Promise.all([originA, originB, fallback, destination].map(s => s.close()));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    mockAllowLoopback = true;
+    fs.chmodSync(ffmpegPath, 0o755);
+    for (const standIn of [originA, originB, fallback, destination]) {
+      standIn.connections = [];
+    }
+    mockQuery.mockReset().mockImplementation(async (sql: string) => {
+      if (sql.includes("FROM restream_destinations")) {
+        return {
+          rows: [{ id: "dest-1", name: "Example", rtmp_url: "rtmp://127.0.0.1:" + destination.port + "/app/", stream_key: "secret" }]
+        };
+      }
+      return { rows: [] };
+    });
+    mockGetStreamState.mockReset().mockResolvedValue({ status: "live", node: "origin-b" });
+    await restreamer.startRestreamer();
+  });
+
+  afterEach(async () => {
+    restreamer.stopRestreamer();
+    await waitFor(() => destination.open().length === 0);
+    jest.restoreAllMocks();
+  });
+
+  it("forwards from the origin the stream is publishing on", async () => {
+    await emit("stream:start", { streamId: "stream-1", streamKey: "abc" });
+
+    await waitFor(() => destination.open().length === 1);
+    expect(destination.open()).toEqual(["/app/secret"]);
+    expect(originB.open()).toEqual(["/live/abc"]);
+    expect(originA.connections).toHaveLength(0);
+    expect(mockGetStreamState).toHaveBeenCalledWith("abc");
+  });
+
+  it("pulls from RESTREAM_SOURCE_URL when the stream's node isn't listed", async () => {
+    mockGetStreamState.mockResolvedValue({ status: "live", node: "origin-z" });
+    await emit("stream:start", { streamId: "stream-1", streamKey: "abc" });
+
+    await waitFor(() => fallback.open().length === 1);
+    expect(fallback.open()).toEqual(["/live/abc"]);
+    expect(originB.connections).toHaveLength(0);
+  });
+
+  it("stops the forward on a restream:stop event", async () => {
+    await emit("stream:start", { streamId: "stream-1", streamKey: "abc" });
+    await waitFor(() => destination.open().length === 1);
+
+    await emit("restream:stop", { destinationId: "dest-1" });
+
+    await waitFor(() => destination.open().length === 0 && originB.open().length === 0);
+    await waitFor(() => statuses().includes("idle"));
+  });
+
+  it("stops the forward when the stream ends", async () => {
+    await emit("stream:start", { streamId: "stream-1", streamKey: "abc" });
+    await waitFor(() => destination.open().length === 1);
+
+    await emit("stream:stop", { streamId: "stream-1", streamKey: "abc" });
+
+    await waitFor(() => destination.open().length === 0);
+    await sleep(2500);
+    expect(destination.connections).toHaveLength(1);
+  });
+
+  it("reconnects from the new origin after a failover", async () => {
+    await emit("stream:start", { streamId: "stream-1", streamKey: "abc" });
+    await waitFor(() => originB.open().length === 1);
+
+    mockGetStreamState.mockResolvedValue({ status: "live", node: "origin-a" });
+    originB.drop();
+
+    await waitFor(() => statuses().includes("reconnecting"));
+    await waitFor(() => originA.open().length === 1, 5000);
+    expect(originA.open()).toEqual(["/live/abc"]);
+    expect(destination.open()).toEqual(["/app/secret"]);
+    expect(originB.connections).toHaveLength(1);
+  }, 10000);
+
+  it("keeps retrying without crashing when ffmpeg can't be run", async () => {
+    fs.chmodSync(ffmpegPath, 0o644);
+    await emit("stream:start", { streamId: "stream-1", streamKey: "abc" });
+
+    await waitFor(() => statuses().includes("reconnecting"));
+    const reconnect = mockQuery.mock.calls.find(([sql, params]) => sql.includes("UPDATE restream_destinations") && params[1] === "reconnecting");
+    expect(reconnect![1][2]).toMatch(/^Could not run ffmpeg: .*EACCES/);
+
+    // The next attempt, 2s later, finds a working ffmpeg
+    fs.chmodSync(ffmpegPath, 0o755);
+    await waitFor(() => destination.open().length === 1, 5000);
+  }, 10000);
+
+  it("refuses to forward to a private address", async () => {
+    mockAllowLoopback = false;
+    await emit("stream:start", { streamId: "stream-1", streamKey: "abc" });
+
+    await waitFor(() => statuses().includes("error"));
+    await sleep(2500);
+    expect(destination.connections).toHaveLength(0);
+    expect(originB.connections).toHaveLength(0);
+  }, 10000);
+
+  it("parses RESTREAM_SOURCE_URLS", () => {
+    const sources = restreamer.parseSourceUrls("origin-a=rtmp://a:1935/live, origin-b=rtmp://b/live?x=1,broken");
+    expect([...sources.entries()]).toEqual([
+      ["origin-a", "rtmp://a:1935/live"],
+      ["origin-b", "rtmp://b/live?x=1"]
+    ]);
+  });
+});
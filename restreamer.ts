@@ -0,0 +1,446 @@
+import { Router } from "express";
+import { spawn, ChildProcess } from "child_process";
+import { query } from "./database";
+import { getStreamState } from "./redis";
+import { authMiddleware, AuthRequest } from "./auth";
+import { addOutboxListener, kickOutbox } from "./eventOutbox";
+import { checkPublicHost, urlHost } from "./privateAddresses";
+
+// Simulcast: when a stream goes live, forward it to each enabled RTMP/RTMPS
+// destination with an ffmpeg copy (no re-encode), and stop when it ends.
+//
+// Each forward pulls from the origin the stream is publishing on. In a
+// cluster RESTREAM_SOURCE_URLS maps the node ids from SRS_API_URLS to their
+// RTMP URLs, "origin-a=rtmp://srs-a:1935/live,origin-b=rtmp://srs-b:1935/live";
+// streams on a node that isn't listed, or with no node, use
+// RESTREAM_SOURCE_URL. The node is looked up again on every reconnect, so a
+// forward follows the stream when it fails over.
+//
+// Destinations are chosen by customers and connected to from inside our
+// network, so private addresses are refused when a destination is saved and
+// again before every connect.
+//
+// Where the stream is pulled from and which ffmpeg runs are configurable so
+// the workers can be pointed at a local stand-in, e.g. a `ffmpeg -listen 1`
+// or nginx-rtmp container as the source. restreamer.test.ts runs the workers
+// with a script in place of ffmpeg against local TCP listeners.
+const RESTREAM_SOURCE_URL = process.env.RESTREAM_SOURCE_URL || "rtmp://srs:1935/live";
+const RESTREAM_SOURCE_URLS = process.env.RESTREAM_SOURCE_URLS || "";
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const RESTREAM_MAX_RECONNECT_DELAY_MS = 60000;
+
+type DestinationStatus = "idle" | "connecting" | "live" | "reconnecting" | "error";
+
+interface RestreamWorker {
+  destinationId: string;
+  streamKey: string;
+  process: ChildProcess | null;
+  attempts: number;
+  stopped: boolean;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Active workers (destination_id -> worker)
+const restreamWorkers: Map<string, RestreamWorker> = new Map();
+
+export function parseSourceUrls(value: string = RESTREAM_SOURCE_URLS): Map<string, string> {
+  const sources = new Map<string, string>();
+  for (const entry of value.split(",").map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf("=");
+    if (separator > 0) {
+      sources.set(entry.substring(0, separator), entry.substring(separator + 1));
+    }
+  }
+  return sources;
+}
+
+const sourceUrls = parseSourceUrls();
+
+async function getSourceUrl(streamKey: string): Promise<string> {
+  let node: string | null = null;
+  try {
+    const state = await getStreamState(streamKey);
+    node = state?.node || null;
+  } catch (error) {
+    console.error("[Restream] Could not read the node for stream " + streamKey + ":", error);
+  }
+  const base = (node && sourceUrls.get(node)) || RESTREAM_SOURCE_URL;
+  return base.replace(/\/+$/, "") + "/" + streamKey;
+}
+
+export async function ensureRestreamSchema() {
+  await query(`
+    CREATE TABLE IF NOT EXISTS restream_destinations (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      stream_id UUID NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      rtmp_url VARCHAR(1000) NOT NULL,
+      stream_key VARCHAR(500) NOT NULL,
+      enabled BOOLEAN DEFAULT true,
+      status VARCHAR(20) DEFAULT 'idle',
+      last_error TEXT,
+      last_connected_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `, []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_restream_destinations_stream ON restream_destinations(stream_id)",
+    []
+  );
+}
+
+function destinationUrl(destination: { rtmp_url: string; stream_key: string }): string {
+  return destination.rtmp_url.replace(/\/+$/, "") + "/" + destination.stream_key;
+}
+
+async function setDestinationStatus(destinationId: string, status: DestinationStatus, error: string | null = null) {
+  await query(
+    `UPDATE restream_destinations
+     SET status = $2, last_error = COALESCE($3, last_error),
+         last_connected_at = CASE WHEN $2 = 'live' THEN NOW() ELSE last_connected_at END,
+         updated_at = NOW()
+     WHERE id = $1`,
+    [destinationId, status, error]
+  ).catch(console.error);
+}
+
+async function checkDestinationHost(rtmpUrl: string): Promise<"public" | "private" | "unresolved"> {
+  let url: URL;
+  try {
+    url = new URL(rtmpUrl);
+  } catch (error) {
+    return "private"; // Saved before URLs were checked; never connect to it
+  }
+  return checkPublicHost(urlHost(url));
+}
+
+async function runWorker(worker: RestreamWorker, destination: { id: string; name: string; rtmp_url: string; stream_key: string }) {
+  const sourceUrl = await getSourceUrl(worker.streamKey);
+  if (worker.stopped) return;
+
+  // Checked again here as well as when saved, since DNS can change in between
+  const destinationHost = await checkDestinationHost(destination.rtmp_url);
+  if (worker.stopped) return;
+  if (destinationHost === "private") {
+    console.log("[Restream] " + destination.name + " isn't a public address, not forwarding stream " + worker.streamKey);
+    setDestinationStatus(destination.id, "error", "Destination must be a public rtmp:// or rtmps:// address");
+    restreamWorkers.delete(destination.id);
+    return;
+  }
+  if (destinationHost === "unresolved") {
+    scheduleReconnect(worker, destination, "Destination host could not be resolved");
+    return;
+  }
+
+  const args = [
+    "-hide_banner",
+    "-loglevel", "warning",
+    "-rw_timeout", "10000000",
+    "-i", sourceUrl,
+    "-c", "copy",
+    "-f", "flv",
+    destinationUrl(destination)
+  ];
+
+  setDestinationStatus(destination.id, worker.attempts === 0 ? "connecting" : "reconnecting");
+
+  const ffmpegProcess = spawn(FFMPEG_PATH, args);
+  worker.process = ffmpegProcess;
+  let lastError = "";
+  let finished = false;
+
+  // ffmpeg only logs warnings and errors at this level; once it has run for
+  // a few seconds without exiting, the destination accepted the stream
+  const liveTimer = setTimeout(() => {
+    worker.attempts = 0;
+    setDestinationStatus(destination.id, "live");
+    console.log("[Restream] " + destination.name + " is live for stream " + worker.streamKey);
+  }, 5000);
+
+  // A failed spawn (ffmpeg missing or not executable) emits "error" and may
+  // never emit "exit"; either way the worker moves on once
+  const finish = (reason: string) => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(liveTimer);
+    worker.process = null;
+
+    if (worker.stopped) {
+      setDestinationStatus(destination.id, "idle");
+      return;
+    }
+    scheduleReconnect(worker, destination, reason);
+  };
+
+  ffmpegProcess.stderr.on("data", (data) => {
+    lastError = data.toString().trim().split("\n").pop() || lastError;
+  });
+
+  ffmpegProcess.on("error", (error) => {
+    finish("Could not run ffmpeg: " + error.message);
+  });
+
+  ffmpegProcess.on("exit", (code) => {
+    finish(lastError || "ffmpeg exited with code " + code);
+  });
+}
+
+// Reconnect with backoff: 2s, 4s, 8s ... capped at a minute
+function scheduleReconnect(worker: RestreamWorker, destination: { id: string; name: string; rtmp_url: string; stream_key: string }, reason: string) {
+  worker.attempts++;
+  const delay = Math.min(1000 * Math.pow(2, worker.attempts), RESTREAM_MAX_RECONNECT_DELAY_MS);
+  console.log("[Restream] " + destination.name + " stopped, reconnecting in " + delay + "ms: " + reason);
+  setDestinationStatus(destination.id, "reconnecting", reason);
+
+  worker.reconnectTimer = setTimeout(() => {
+    worker.reconnectTimer = null;
+    if (!worker.stopped) {
+      runWorker(worker, destination);
+    }
+  }, delay);
+}
+
+function startDestination(destination: any, streamKey: string) {
+  if (restreamWorkers.has(destination.id)) return;
+
+  const worker: RestreamWorker = {
+    destinationId: destination.id,
+    streamKey,
+    process: null,
+    attempts: 0,
+    stopped: false,
+    reconnectTimer: null
+  };
+  restreamWorkers.set(destination.id, worker);
+  console.log("[Restream] Starting " + destination.name + " for stream " + streamKey);
+  runWorker(worker, destination);
+}
+
+function stopDestination(destinationId: string) {
+  const worker = restreamWorkers.get(destinationId);
+  if (!worker) return;
+
+  worker.stopped = true;
+  if (worker.reconnectTimer) {
+    clearTimeout(worker.reconnectTimer);
+  }
+  if (worker.process) {
+    worker.process.kill("SIGTERM");
+  } else {
+    setDestinationStatus(destinationId, "idle");
+  }
+  restreamWorkers.delete(destinationId);
+}
+
+// Workers only run on the leader, but the API request changing a destination
+// can land on any replica. The stop goes through the outbox, in the same
+// statement as the change, and the leader acts on it.
+const RESTREAM_STOP_EVENT = "restream:stop";
+
+export async function startRestreams(streamId: string, streamKey: string) {
+  const result = await query(
+    "SELECT id, name, rtmp_url, stream_key FROM restream_destinations WHERE stream_id = $1 AND enabled = true",
+    [streamId]
+  );
+  for (const destination of result.rows) {
+    startDestination(destination, streamKey);
+  }
+}
+
+export function stopRestreams(streamKey: string) {
+  for (const worker of [...restreamWorkers.values()]) {
+    if (worker.streamKey === streamKey) {
+      stopDestination(worker.destinationId);
+    }
+  }
+}
+
+
+async function handleLifecycleEvent(event: string, payload: any) {
+  if (event === "stream:start") {
+    await startRestreams(payload.streamId, payload.streamKey);
+  } else if (event === "stream:stop") {
+    stopRestreams(payload.streamKey);
+  } else if (event === RESTREAM_STOP_EVENT) {
+    stopDestination(payload.destinationId);
+  }
+}
+
+// Restream workers live in the process that handles lifecycle events, which
+// is the stream sync leader. A newly elected leader picks up forwarding for
+// streams that went live under the previous one.
+export async function startRestreamer() {
+  addOutboxListener("restreamer", handleLifecycleEvent);
+
+  const result = await query("SELECT id, stream_key FROM streams WHERE status = 'live'", []);
+  for (const stream of result.rows) {
+    await startRestreams(stream.id, stream.stream_key);
+  }
+}
+
+export function stopRestreamer() {
+  for (const destinationId of [...restreamWorkers.keys()]) {
+    stopDestination(destinationId);
+  }
+}
+
+// ==================== RESTREAM DESTINATIONS API ====================
+// Mounted under /api/streams, e.g. GET /api/streams/:streamId/restream
+
+export const restreamRouter = Router();
+
+async function getOwnedStream(streamId: string, req: AuthRequest) {
+  const result = req.user!.role === "admin"
+    ? await query("SELECT id, stream_key, status FROM streams WHERE id = $1", [streamId])
+    : await query("SELECT id, stream_key, status FROM streams WHERE id = $1 AND user_id = $2", [streamId, req.user!.id]);
+  return result.rows[0];
+}
+
+function isValidRtmpUrl(value: any): boolean {
+  return typeof value === "string" && /^rtmps?:\/\/[^\s/]+/.test(value);
+}
+
+// Returns why the destination URL can't be used, or null if it can. The
+// leader's ffmpeg connects to it, so it must not reach anything on our side.
+async function checkRtmpUrl(value: any): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    return "rtmp_url must be an rtmp:// or rtmps:// URL";
+  }
+  if (!isValidRtmpUrl(value) || (url.protocol !== "rtmp:" && url.protocol !== "rtmps:")) {
+    return "rtmp_url must be an rtmp:// or rtmps:// URL";
+  }
+
+  const host = await checkPublicHost(urlHost(url));
+  if (host === "private") {
+    return "rtmp_url must not point to a private address";
+  }
+  if (host === "unresolved") {
+    return "rtmp_url host could not be resolved";
+  }
+  return null;
+}
+
+// Destination stream keys are third-party credentials, so only a masked
+// version is returned
+function maskDestination(row: any) {
+  const { stream_key, ...rest } = row;
+  return { ...rest, stream_key_hint: stream_key ? "****" + stream_key.slice(-4) : null };
+}
+
+// Inserts a stop event for each destination the statement returns
+function withStopEvent(statement: string): string {
+  return `WITH changed AS (` + statement + `), events AS (
+       INSERT INTO stream_event_outbox (event, payload)
+       SELECT '` + RESTREAM_STOP_EVENT + `', jsonb_build_object('destinationId', id) FROM changed WHERE NOT enabled
+     )
+     SELECT * FROM changed`;
+}
+
+restreamRouter.get("/:streamId/restream", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stream = await getOwnedStream(req.params.streamId, req);
+    if (!stream) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const result = await query(
+      "SELECT * FROM restream_destinations WHERE stream_id = $1 ORDER BY created_at",
+      [stream.id]
+    );
+    res.json(result.rows.map(maskDestination));
+  } catch (error) {
+    console.error("Error fetching restream destinations:", error);
+    res.status(500).json({ error: "Failed to fetch restream destinations" });
+  }
+});
+
+restreamRouter.post("/:streamId/restream", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stream = await getOwnedStream(req.params.streamId, req);
+    if (!stream) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const { name, rtmp_url, stream_key, enabled = true } = req.body;
+    if (!name || !isValidRtmpUrl(rtmp_url) || !stream_key) {
+      return res.status(400).json({ error: "name, an rtmp:// or rtmps:// URL and stream_key are required" });
+    }
+    const urlError = await checkRtmpUrl(rtmp_url);
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    const result = await query(
+      `INSERT INTO restream_destinations (stream_id, name, rtmp_url, stream_key, enabled)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [stream.id, name, rtmp_url, stream_key, enabled]
+    );
+    res.status(201).json(maskDestination(result.rows[0]));
+  } catch (error) {
+    console.error("Error creating restream destination:", error);
+    res.status(500).json({ error: "Failed to create restream destination" });
+  }
+});
+
+// Changes apply from the next go-live; toggling `enabled` off also stops a
+// running forward, as soon as the leader picks up the stop event
+restreamRouter.put("/:streamId/restream/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stream = await getOwnedStream(req.params.streamId, req);
+    if (!stream) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const { name, rtmp_url, stream_key, enabled } = req.body;
+    if (rtmp_url !== undefined) {
+      const urlError = await checkRtmpUrl(rtmp_url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+    }
+
+    const update = `UPDATE restream_destinations
+       SET name = COALESCE($3, name), rtmp_url = COALESCE($4, rtmp_url), stream_key = COALESCE($5, stream_key),
+           enabled = COALESCE($6, enabled), updated_at = NOW()
+       WHERE id = $1 AND stream_id = $2
+       RETURNING *`;
+    const result = await query(
+      enabled === false ? withStopEvent(update) : update,
+      [req.params.id, stream.id, name ?? null, rtmp_url ?? null, stream_key ?? null, enabled ?? null]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Destination not found" });
+    }
+
+    kickOutbox();
+    res.json(maskDestination(result.rows[0]));
+  } catch (error) {
+    console.error("Error updating restream destination:", error);
+    res.status(500).json({ error: "Failed to update restream destination" });
+  }
+});
+
+restreamRouter.delete("/:streamId/restream/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stream = await getOwnedStream(req.params.streamId, req);
+    if (!stream) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    // Deleted rows count as disabled, so the leader stops their forward too
+    await query(
+      withStopEvent("DELETE FROM restream_destinations WHERE id = $1 AND stream_id = $2 RETURNING id, false AS enabled"),
+      [req.params.id, stream.id]
+    );
+    kickOutbox();
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting restream destination:", error);
+    res.status(500).json({ error: "Failed to delete restream destination" });
+  }
+});
@@ -0,0 +1,168 @@
+import { Router } from "express";
+import * as crypto from "crypto";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+
+// A scheduled stream sits in status "scheduled" until its key publishes, at
+// which point stream sync takes it live as usual. If nobody publishes within
+// the window after the planned start it is marked "no_show". Publishing late
+// still takes a no-show live.
+const NO_SHOW_WINDOW_MINUTES = parseInt(process.env.NO_SHOW_WINDOW_MINUTES || "30", 10);
+const NO_SHOW_CHECK_INTERVAL_MS = 60000;
+
+let lastNoShowCheckAt = 0;
+
+export async function ensureScheduleSchema() {
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMP", []);
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP", []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_streams_scheduled ON streams(status, scheduled_start)",
+    []
+  );
+}
+
+function generateStreamKey(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+// Called from the stream sync loop on the leader. Returns the streams it
+// marked so the caller can record the transitions.
+export async function markNoShows(): Promise<{ id: string; stream_key: string }[]> {
+  const now = Date.now();
+  if (now - lastNoShowCheckAt < NO_SHOW_CHECK_INTERVAL_MS) return [];
+  lastNoShowCheckAt = now;
+
+  const result = await query(
+    `WITH updated AS (
+       UPDATE streams SET status = 'no_show', no_show_at = NOW(), updated_at = NOW()
+       WHERE status = 'scheduled' AND scheduled_start < NOW() - make_interval(mins => $1)
+       RETURNING id, user_id, title, stream_key, scheduled_start
+     ), events AS (
+       INSERT INTO stream_event_outbox (event, payload)
+       SELECT 'stream:no_show', jsonb_build_object('streamId', id, 'streamKey', stream_key, 'userId', user_id, 'title', title, 'scheduledStart', scheduled_start)
+       FROM updated
+     )
+     SELECT id, stream_key FROM updated`,
+    [NO_SHOW_WINDOW_MINUTES]
+  );
+  return result.rows;
+}
+
+// Schedule details for the public status endpoint, when the stream isn't live
+export async function getScheduleInfo(streamKey: string) {
+  const result = await query(
+    "SELECT status, title, scheduled_start FROM streams WHERE stream_key = $1 AND status IN ('scheduled', 'no_show')",
+    [streamKey]
+  );
+  return result.rows[0] || null;
+}
+
+export async function listUpcomingStreams(limit: number = 50) {
+  const result = await query(
+    `SELECT id, title, description, scheduled_start
+     FROM streams
+     WHERE status = 'scheduled'
+     ORDER BY scheduled_start
+     LIMIT $1`,
+    [limit]
+  );
+  return result.rows;
+}
+
+function parseScheduledStart(value: any): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime()) || date.getTime() < Date.now()) return null;
+  return date;
+}
+
+// ==================== SCHEDULED STREAMS API ====================
+// Mounted at /api/streams/scheduled
+
+export const scheduledStreamsRouter = Router();
+
+scheduledStreamsRouter.get("/", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const result = await query(
+      `SELECT id, title, description, stream_key, status, scheduled_start, no_show_at, recording_enabled, created_at
+       FROM streams
+       WHERE user_id = $1 AND status IN ('scheduled', 'no_show')
+       ORDER BY scheduled_start`,
+      [req.user!.id]
+    );
+    res.json(result.rows);
+  } catch (error) {
+    console.error("Error fetching scheduled streams:", error);
+    res.status(500).json({ error: "Failed to fetch scheduled streams" });
+  }
+});
+
+scheduledStreamsRouter.post("/", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { title, description, recording_enabled = false } = req.body;
+    const scheduledStart = parseScheduledStart(req.body.scheduled_start);
+    if (!title || !scheduledStart) {
+      return res.status(400).json({ error: "title and a future scheduled_start are required" });
+    }
+
+    const result = await query(
+      `INSERT INTO streams (user_id, title, description, stream_key, status, scheduled_start, recording_enabled)
+       VALUES ($1, $2, $3, $4, 'scheduled', $5, $6)
+       RETURNING id, title, description, stream_key, status, scheduled_start, recording_enabled, created_at`,
+      [req.user!.id, title, description || null, generateStreamKey(), scheduledStart, recording_enabled]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error("Error scheduling stream:", error);
+    res.status(500).json({ error: "Failed to schedule stream" });
+  }
+});
+
+// Reschedule. Also revives a no-show, so the same key can be reused.
+scheduledStreamsRouter.put("/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { title, description } = req.body;
+    let scheduledStart: Date | null = null;
+    if (req.body.scheduled_start !== undefined) {
+      scheduledStart = parseScheduledStart(req.body.scheduled_start);
+      if (!scheduledStart) {
+        return res.status(400).json({ error: "scheduled_start must be in the future" });
+      }
+    }
+
+    const result = await query(
+      `UPDATE streams
+       SET title = COALESCE($3, title), description = COALESCE($4, description),
+           scheduled_start = COALESCE($5, scheduled_start),
+           status = CASE WHEN $5::timestamp IS NOT NULL THEN 'scheduled' ELSE status END,
+           no_show_at = CASE WHEN $5::timestamp IS NOT NULL THEN NULL ELSE no_show_at END,
+           updated_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND status IN ('scheduled', 'no_show')
+       RETURNING id, title, description, stream_key, status, scheduled_start, recording_enabled, created_at`,
+      [req.params.id, req.user!.id, title ?? null, description ?? null, scheduledStart]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Scheduled stream not found" });
+    }
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error("Error updating scheduled stream:", error);
+    res.status(500).json({ error: "Failed to update scheduled stream" });
+  }
+});
+
+scheduledStreamsRouter.delete("/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const result = await query(
+      "DELETE FROM streams WHERE id = $1 AND user_id = $2 AND status IN ('scheduled', 'no_show') RETURNING id",
+      [req.params.id, req.user!.id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Scheduled stream not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error cancelling scheduled stream:", error);
+    res.status(500).json({ error: "Failed to cancel scheduled stream" });
+  }
+});
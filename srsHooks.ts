@@ -0,0 +1,168 @@
+import { Router, Request, Response } from "express";
+import * as crypto from "crypto";
+import { applyPublishHook, applyUnpublishHook, applyLivenessHook } from "./streamSync";
+import { recordSegmentDuration } from "./ingestHealth";
+import { authorizePublish } from "./publishAuth";
+import { recordDvrFile } from "./liveToVod";
+
+// Shared secret, required. SRS can't sign hook requests, so it is passed in
+// the hook URL instead, e.g. http://api:3000/api/srs/hooks/on_publish?secret=...
+// Without it every hook is rejected: a forged on_publish would otherwise put
+// streams live and set off webhooks, recordings and restreams.
+// In a cluster each origin also names itself the same way (&node=origin-a),
+// matching the ids in SRS_API_URLS.
+const SRS_HOOK_SECRET = process.env.SRS_HOOK_SECRET || "";
+
+if (!SRS_HOOK_SECRET) {
+  console.error("SRS hooks: SRS_HOOK_SECRET is not set, all hook requests will be rejected");
+}
+
+// Fields SRS sends with every http_hooks callback. on_dvr and on_hls add the
+// file details.
+interface SrsHookPayload {
+  action: string;
+  client_id: string;
+  ip: string;
+  vhost: string;
+  app: string;
+  stream: string;
+  param?: string;
+  server_id?: string;
+  cwd?: string;
+  file?: string;
+  duration?: number;
+  seq_no?: number;
+  node?: string; // From the hook URL, not sent by SRS
+}
+
+// Client currently publishing each stream key on each origin. SRS can
+// deliver an old session's on_unpublish after the encoder has already
+// reconnected, so an unpublish is only applied if it comes from the current
+// publisher. Keyed per origin because a backup encoder may be publishing the
+// same stream on another one.
+const activePublishers = new Map<string, string>();
+
+// Last client to unpublish each stream key on each origin. on_hls/on_dvr for
+// the final segment can arrive after on_unpublish and must not bring the
+// stream back.
+const endedPublishers = new Map<string, string>();
+
+function publisherKey(hook: SrsHookPayload): string {
+  return hook.stream + "@" + (hook.node || "");
+}
+
+function parsePayload(body: any, action: string): SrsHookPayload | null {
+  if (!body || typeof body !== "object") return null;
+  if (body.action !== action) return null;
+  if (typeof body.stream !== "string" || body.stream.length === 0) return null;
+  if (body.client_id === undefined || body.client_id === null) return null;
+
+  return {
+    ...body,
+    client_id: String(body.client_id),
+    stream: body.stream.replace(".m3u8", "")
+  };
+}
+
+// SRS only accepts HTTP 200 with code 0; anything else rejects the client.
+// For on_publish that refuses the encoder.
+function accept(res: Response) {
+  res.status(200).json({ code: 0 });
+}
+
+function reject(res: Response, status: number, error: string) {
+  res.status(status).json({ code: 1, error });
+}
+
+function isValidSecret(secret: unknown): boolean {
+  if (!SRS_HOOK_SECRET || typeof secret !== "string") return false;
+  const expected = Buffer.from(SRS_HOOK_SECRET);
+  const given = Buffer.from(secret);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// A handler can return a reason to reject the client
+function hookHandler(action: string, handle: (hook: SrsHookPayload) => Promise<string | void>) {
+  return async (req: Request, res: Response) => {
+    if (!isValidSecret(req.query.secret)) {
+      return reject(res, 403, "Invalid hook secret");
+    }
+
+    const hook = parsePayload(req.body, action);
+    if (!hook) {
+      console.error("SRS hook: Invalid " + action + " payload:", req.body);
+      return reject(res, 400, "Invalid " + action + " payload");
+    }
+    hook.node = typeof req.query.node === "string" ? req.query.node : undefined;
+
+    try {
+      const rejection = await handle(hook);
+      if (rejection) {
+        return reject(res, 403, rejection);
+      }
+      accept(res);
+    } catch (error) {
+      console.error("SRS hook error for " + action + " " + hook.stream + ":", error);
+      // Never block SRS on our own failures; the poller will reconcile
+      accept(res);
+    }
+  };
+}
+
+export const srsHooksRouter = Router();
+
+srsHooksRouter.post("/on_publish", hookHandler("on_publish", async (hook) => {
+  if (activePublishers.get(publisherKey(hook)) === hook.client_id) {
+    return; // Retried delivery
+  }
+
+  const decision = await authorizePublish(hook.stream, hook.ip, hook.node, hook.param);
+  if (!decision.allowed) {
+    console.log("SRS hook: Rejected publish of " + hook.stream + " from " + hook.ip + ": " + decision.reason);
+    return decision.reason;
+  }
+
+  activePublishers.set(publisherKey(hook), hook.client_id);
+  endedPublishers.delete(publisherKey(hook));
+  console.log("SRS hook: on_publish " + hook.stream + " from " + hook.ip + (hook.node ? " on " + hook.node : ""));
+  await applyPublishHook(hook.stream, hook.node, decision.ingest);
+}));
+
+srsHooksRouter.post("/on_unpublish", hookHandler("on_unpublish", async (hook) => {
+  const current = activePublishers.get(publisherKey(hook));
+  if (current && current !== hook.client_id) {
+    console.log("SRS hook: Ignoring stale on_unpublish for " + hook.stream + " (client " + hook.client_id + ")");
+    return;
+  }
+  activePublishers.delete(publisherKey(hook));
+  endedPublishers.set(publisherKey(hook), hook.client_id);
+  console.log("SRS hook: on_unpublish " + hook.stream);
+  await applyUnpublishHook(hook.stream, hook.node);
+}));
+
+async function handleLiveness(hook: SrsHookPayload) {
+  if (endedPublishers.get(publisherKey(hook)) === hook.client_id) {
+    return; // Trailing segment from a session that already ended
+  }
+  if (!activePublishers.has(publisherKey(hook))) {
+    activePublishers.set(publisherKey(hook), hook.client_id);
+  }
+  await applyLivenessHook(hook.stream, hook.node);
+}
+
+srsHooksRouter.post("/on_dvr", hookHandler("on_dvr", async (hook) => {
+  console.log("SRS hook: on_dvr " + hook.stream + " wrote " + hook.file);
+  if (hook.file) {
+    await recordDvrFile(hook.stream, hook.cwd, hook.file);
+  }
+  await handleLiveness(hook);
+}));
+
+srsHooksRouter.post("/on_hls", hookHandler("on_hls", async (hook) => {
+  if (typeof hook.duration === "number") {
+    // Only feeds the keyframe estimate, so don't let it hold up liveness
+    await recordSegmentDuration(hook.stream, hook.duration)
+      .catch(error => console.error("SRS hook: Failed to record segment duration for " + hook.stream + ":", error));
+  }
+  await handleLiveness(hook);
+}));
@@ -0,0 +1,220 @@
+import { Router } from "express";
+import * as crypto from "crypto";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+
+// Ingest keys. Encoders publish to the stream's public name and pass a
+// secret ingest key in the URL: rtmp://host/live/<stream_key>?key=<ingest key>.
+// Each stream has a primary key and optionally a backup key for a second,
+// redundant encoder. Both publish under the same stream name, so stream sync
+// sees one logical stream whichever is live, and playback URLs never change
+// when a key is rotated.
+//
+// The stream key itself is public, it is in every player URL, so it is never
+// enough to publish on its own. Streams from before ingest keys are issued a
+// primary key when the schema is first migrated, and their encoders may keep
+// publishing without one for INGEST_KEY_GRACE_DAYS while they are updated
+// (streams.keyless_publish_until, which owners can end early or extend in
+// the publish settings). Otherwise an encoder without a valid key is refused.
+// A stream only gets a key automatically if it has never had one, so
+// revoking every key stops publishing until the owner rotates a new one.
+const KEY_ROTATION_OVERLAP_MINUTES = parseInt(process.env.KEY_ROTATION_OVERLAP_MINUTES || "60", 10);
+const INGEST_KEY_GRACE_DAYS = parseInt(process.env.INGEST_KEY_GRACE_DAYS || "30", 10);
+
+export type IngestKind = "primary" | "backup";
+
+export type IngestKeyCheck = { ok: true; kind: IngestKind } | { ok: false; reason: string };
+
+export async function ensureStreamKeysSchema() {
+  const existing = await query("SELECT to_regclass('stream_keys') AS name", []);
+  const firstMigration = !existing.rows[0]?.name;
+
+  await query("ALTER TABLE streams ADD COLUMN IF NOT EXISTS keyless_publish_until TIMESTAMP", []);
+  await query(`
+    CREATE TABLE IF NOT EXISTS stream_keys (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      stream_id UUID NOT NULL,
+      ingest_key VARCHAR(100) UNIQUE NOT NULL,
+      kind VARCHAR(10) NOT NULL DEFAULT 'primary',
+      expires_at TIMESTAMP,
+      revoked_at TIMESTAMP,
+      last_used_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `, []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_stream_keys_stream ON stream_keys(stream_id)",
+    []
+  );
+  if (firstMigration) {
+    await query(
+      "UPDATE streams SET keyless_publish_until = NOW() + make_interval(days => $1)",
+      [INGEST_KEY_GRACE_DAYS]
+    );
+  }
+  // Streams created since the last start may not have one yet either
+  await query(
+    `INSERT INTO stream_keys (stream_id, ingest_key, kind)
+     SELECT s.id, 'ik_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''), 'primary'
+     FROM streams s
+     WHERE NOT EXISTS (SELECT 1 FROM stream_keys k WHERE k.stream_id = s.id)`,
+    []
+  );
+}
+
+function generateIngestKey(): string {
+  return "ik_" + crypto.randomBytes(20).toString("hex");
+}
+
+// SRS passes the query string of the publish URL as `param`, e.g. "?key=..."
+function parseIngestKey(param?: string): string | null {
+  if (!param) return null;
+  const params = new URLSearchParams(param.startsWith("?") ? param.slice(1) : param);
+  return params.get("key");
+}
+
+// A key is usable until it is revoked, or until its overlap period ends after
+// being rotated out
+const ACTIVE_KEY = "revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())";
+
+export async function checkIngestKey(streamId: string, param?: string): Promise<IngestKeyCheck> {
+  const ingestKey = parseIngestKey(param);
+  if (!ingestKey) {
+    const stream = await query(
+      "SELECT keyless_publish_until FROM streams WHERE id = $1 AND keyless_publish_until > NOW()",
+      [streamId]
+    );
+    if (stream.rows.length > 0) {
+      console.log("Stream keys: Stream " + streamId + " published without an ingest key, allowed until " +
+        new Date(stream.rows[0].keyless_publish_until).toISOString());
+      return { ok: true, kind: "primary" };
+    }
+  }
+
+  const result = await query(
+    "SELECT id, ingest_key, kind, (" + ACTIVE_KEY + ") AS active FROM stream_keys WHERE stream_id = $1",
+    [streamId]
+  );
+  if (result.rows.length === 0) {
+    return { ok: false, reason: "Stream has no ingest key, rotate one to publish" };
+  }
+  if (!ingestKey) {
+    return { ok: false, reason: "Missing ingest key" };
+  }
+
+  const match = result.rows.find(row =>
+    row.active &&
+    row.ingest_key.length === ingestKey.length &&
+    crypto.timingSafeEqual(Buffer.from(row.ingest_key), Buffer.from(ingestKey))
+  );
+  if (!match) {
+    return { ok: false, reason: "Invalid ingest key" };
+  }
+
+  await query("UPDATE stream_keys SET last_used_at = NOW() WHERE id = $1", [match.id]);
+  return { ok: true, kind: match.kind };
+}
+
+// ==================== INGEST KEYS API ====================
+// Mounted under /api/streams, e.g. POST /api/streams/:id/keys/rotate
+
+export const streamKeysRouter = Router();
+
+async function getOwnedStream(streamId: string, req: AuthRequest) {
+  const result = req.user!.role === "admin"
+    ? await query("SELECT id FROM streams WHERE id = $1", [streamId])
+    : await query("SELECT id FROM streams WHERE id = $1 AND user_id = $2", [streamId, req.user!.id]);
+  return result.rows[0];
+}
+
+streamKeysRouter.get("/:id/keys", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stream = await getOwnedStream(req.params.id, req);
+    if (!stream) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    // A stream created since the last migration gets its first key here. One
+    // whose keys were all revoked stays without until its owner rotates.
+    await query(
+      `INSERT INTO stream_keys (stream_id, ingest_key, kind)
+       SELECT $1, $2, 'primary'
+       WHERE NOT EXISTS (SELECT 1 FROM stream_keys WHERE stream_id = $1)`,
+      [stream.id, generateIngestKey()]
+    );
+
+    const result = await query(
+      `SELECT id, ingest_key, kind, expires_at, last_used_at, created_at
+       FROM stream_keys
+       WHERE stream_id = $1 AND ` + ACTIVE_KEY + `
+       ORDER BY kind, created_at DESC`,
+      [stream.id]
+    );
+    res.json(result.rows);
+  } catch (error) {
+    console.error("Error fetching ingest keys:", error);
+    res.status(500).json({ error: "Failed to fetch ingest keys" });
+  }
+});
+
+// Issue a new primary or backup key. The key it replaces keeps working for
+// the overlap period so encoders can be updated without dropping the stream.
+// Rotating the backup for the first time creates it.
+streamKeysRouter.post("/:id/keys/rotate", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stream = await getOwnedStream(req.params.id, req);
+    if (!stream) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const kind: IngestKind = req.body.kind === "backup" ? "backup" : "primary";
+    const overlapMinutes = req.body.overlap_minutes !== undefined
+      ? parseInt(req.body.overlap_minutes, 10)
+      : KEY_ROTATION_OVERLAP_MINUTES;
+    if (isNaN(overlapMinutes) || overlapMinutes < 0) {
+      return res.status(400).json({ error: "overlap_minutes must be zero or more" });
+    }
+
+    await query(
+      `UPDATE stream_keys
+       SET expires_at = LEAST(COALESCE(expires_at, 'infinity'), NOW() + make_interval(mins => $3))
+       WHERE stream_id = $1 AND kind = $2 AND ` + ACTIVE_KEY,
+      [stream.id, kind, overlapMinutes]
+    );
+
+    const result = await query(
+      `INSERT INTO stream_keys (stream_id, ingest_key, kind)
+       VALUES ($1, $2, $3)
+       RETURNING id, ingest_key, kind, expires_at, created_at`,
+      [stream.id, generateIngestKey(), kind]
+    );
+    console.log("Stream keys: Rotated " + kind + " key for stream " + stream.id + " (overlap " + overlapMinutes + "m)");
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error("Error rotating ingest key:", error);
+    res.status(500).json({ error: "Failed to rotate ingest key" });
+  }
+});
+
+// Revoke a key straight away, e.g. after it leaked. Encoders already
+// publishing with it are not disconnected.
+streamKeysRouter.delete("/:id/keys/:keyId", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stream = await getOwnedStream(req.params.id, req);
+    if (!stream) {
+      return res.status(404).json({ error: "Stream not found" });
+    }
+
+    const result = await query(
+      "UPDATE stream_keys SET revoked_at = NOW() WHERE id = $1 AND stream_id = $2 AND revoked_at IS NULL RETURNING id",
+      [req.params.keyId, stream.id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Key not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking ingest key:", error);
+    res.status(500).json({ error: "Failed to revoke ingest key" });
+  }
+});
@@ -0,0 +1,410 @@
+import { createFakeSrs, FakeSrs, FakeSrsFailure } from "./fakeSrs";
+import type { StreamSyncClients } from "./streamSync";
+
+// Stream sync driven against the fake SRS, with Postgres and Redis replaced
+// by the in-memory world below. The real database and Redis modules throw,
+// so anything that bypasses the injected clients fails the test.
+jest.mock("./database", () => ({
+  query: () => {
+    throw new Error("Stream sync used the real database");
+  }
+}), { virtual: true });
+jest.mock("./redis", () => {
+  const fail = () => {
+    throw new Error("Stream sync used the real Redis");
+  };
+  return { publish: fail, getStreamState: fail, setStreamState: fail };
+}, { virtual: true });
+
+const GRACE_MS = 300;
+const POLL_MS = 25;
+
+process.env.STREAM_END_GRACE_MS = String(GRACE_MS);
+
+type StreamSyncModule = typeof import("./streamSync");
+
+interface StreamRow {
+  id: string;
+  user_id: string;
+  title: string;
+  stream_key: string;
+  status: string;
+  recording_enabled: boolean;
+  actual_start: Date | null;
+}
+
+// The rows, Redis state and messages stream sync reads and writes. Queries
+// are matched on the statements stream sync actually issues; anything else
+// throws so a new one can't go unnoticed.
+class FakeWorld {
+  streams = new Map<string, StreamRow>();
+  outbox: { event: string; payload: any }[] = [];
+  transitions: { streamKey: string; transition: string; reason: string }[] = [];
+  states = new Map<string, any>();
+  published: { channel: string; message: any }[] = [];
+
+  addStream(streamKey: string, overrides: Partial<StreamRow> = {}) {
+    this.streams.set(streamKey, {
+      id: "id-" + streamKey,
+      user_id: "user-1",
+      title: "Stream " + streamKey,
+      stream_key: streamKey,
+      status: "offline",
+      recording_enabled: false,
+      actual_start: null,
+      ...overrides
+    });
+  }
+
+  query = async (sql: string, params: any[] = []) => {
+    if (/^\s*CREATE (TABLE|INDEX)/.test(sql)) {
+      return { rows: [] };
+    }
+
+    if (sql.includes("INSERT INTO stream_sync_transitions")) {
+      const [, streamKey, transition, reason] = params;
+      this.transitions.push({ streamKey, transition, reason });
+      return { rows: [] };
+    }
+
+    if (sql.includes("FROM streams WHERE status = $1")) {
+      return { rows: [...this.streams.values()].filter(s => s.status === params[0]).map(s => ({ ...s })) };
+    }
+
+    if (sql.includes("UPDATE streams SET status = $2, actual_start")) {
+      const stream = this.streams.get(params[0]);
+      if (!stream || stream.status === params[1]) return { rows: [] };
+      stream.status = params[1];
+      stream.actual_start = stream.actual_start || new Date();
+      const payload = { streamId: stream.id, streamKey: stream.stream_key, userId: stream.user_id, title: stream.title };
+      this.outbox.push({ event: "stream:start", payload: { ...payload, recordingEnabled: stream.recording_enabled } });
+      if (stream.recording_enabled) {
+        this.outbox.push({ event: "recording:start", payload });
+      }
+      return { rows: [{ id: stream.id, user_id: stream.user_id, title: stream.title, recording_enabled: stream.recording_enabled }] };
+    }
+
+    if (sql.includes("UPDATE streams SET status = $2, actual_end")) {
+      const stream = this.streams.get(params[0]);
+      if (!stream || stream.status !== params[2]) return { rows: [] };
+      stream.status = params[1];
+      const payload = { streamId: stream.id, streamKey: stream.stream_key, userId: stream.user_id };
+      this.outbox.push({ event: "recording:stop", payload }, { event: "stream:stop", payload });
+      return { rows: [{ id: stream.id, user_id: stream.user_id }] };
+    }
+
+    throw new Error("Unexpected query: " + sql);
+  };
+
+  events(): string[] {
+    return this.outbox.map(e => e.event);
+  }
+
+  transitionsFor(streamKey: string): string[] {
+    return this.transitions.filter(t => t.streamKey === streamKey).map(t => t.transition);
+  }
+
+  status(streamKey: string): string | undefined {
+    return this.streams.get(streamKey)?.status;
+  }
+}
+
+// Stands in for the Redis lease; the test decides when this replica leads
+const leader = {
+  isLeader: false,
+  elect: () => {},
+  demote: () => {}
+};
+
+function clientsFor(world: FakeWorld): Partial<StreamSyncClients> {
+  return {
+    query: world.query as any,
+    publish: async (channel: string, message: any) => {
+      world.published.push({ channel, message });
+    },
+    getStreamState: async (streamKey: string) => {
+      const state = world.states.get(streamKey);
+      return state ? JSON.parse(JSON.stringify(state)) : null;
+    },
+    setStreamState: async (streamKey: string, state: any) => {
+      if (state) {
+        world.states.set(streamKey, state);
+      } else {
+        world.states.delete(streamKey);
+      }
+    },
+    startLeaderElection: (onElected: () => void, onDemoted: () => void) => {
+      leader.elect = () => {
+        leader.isLeader = true;
+        onElected();
+      };
+      leader.demote = () => {
+        if (!leader.isLeader) return;
+        leader.isLeader = false;
+        onDemoted();
+      };
+    },
+    isLeader: () => leader.isLeader,
+    kickOutbox: () => {},
+    sampleIngestHealth: async () => {},
+    markNoShows: async () => [],
+    ensureSchemas: async () => {},
+    startWorkers: () => {},
+    stopWorkers: () => {}
+  } as Partial<StreamSyncClients>;
+}
+
+// A fresh copy of the module each time, as after a process restart
+function loadStreamSync(): StreamSyncModule {
+  let streamSync: StreamSyncModule | undefined;
+  jest.isolateModules(() => {
+    streamSync = require("./streamSync");
+  });
+  return streamSync!;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out after " + timeoutMs + "ms");
+    }
+    await sleep(5);
+  }
+}
+
+async function waitForPolls(srs: FakeSrs, count: number) {
+  const target = srs.requestCount() + count;
+  await waitFor(() => srs.requestCount() >= target);
+}
+
+describe("stream sync", () => {
+  let srs: FakeSrs;
+  let world: FakeWorld;
+
+  // Starts a replica against the fake SRS and makes it the leader
+  async function startReplica(): Promise<StreamSyncModule> {
+    const streamSync = loadStreamSync();
+    streamSync.setStreamSyncClients(clientsFor(world));
+    streamSync.startStreamSync(POLL_MS, [srs.node]);
+    leader.elect();
+    await waitFor(() => streamSync.getStreamSyncStatus().running);
+    return streamSync;
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    srs = await createFakeSrs({ id: "origin-a" });
+    world = new FakeWorld();
+    world.addStream("abc");
+  });
+
+  afterEach(async () => {
+    leader.demote();
+    await srs.close();
+    jest.restoreAllMocks();
+  });
+
+  describe("start", () => {
+    it("marks a stream live when it starts publishing", async () => {
+      await startReplica();
+      await srs.publish("abc");
+
+      await waitFor(() => world.transitionsFor("abc").includes("live"));
+      expect(world.status("abc")).toBe("live");
+      expect(world.events()).toEqual(["stream:start"]);
+      expect(world.states.get("abc")).toMatchObject({ id: "id-abc", status: "live", node: "origin-a" });
+    });
+
+    it("starts the recording along with the stream when it is enabled", async () => {
+      world.addStream("abc", { recording_enabled: true });
+      await startReplica();
+      await srs.publish("abc");
+
+      await waitFor(() => world.status("abc") === "live");
+      expect(world.events()).toEqual(["stream:start", "recording:start"]);
+    });
+
+    it("announces a stream once however many polls see it", async () => {
+      await startReplica();
+      await srs.publish("abc");
+
+      await waitFor(() => world.status("abc") === "live");
+      await waitForPolls(srs, 5);
+      expect(world.events()).toEqual(["stream:start"]);
+      expect(world.transitionsFor("abc")).toEqual(["live"]);
+    });
+  });
+
+  describe("end", () => {
+    it("holds a stream that stopped publishing as reconnecting, then ends it after the grace period", async () => {
+      await startReplica();
+      await srs.publish("abc");
+      await waitFor(() => world.status("abc") === "live");
+
+      await srs.unpublish("abc");
+      await waitFor(() => world.states.get("abc")?.status === "reconnecting");
+      expect(world.status("abc")).toBe("live");
+      expect(world.published.map(p => p.channel)).toContain("stream:reconnecting");
+
+      await waitFor(() => world.status("abc") === "ended", GRACE_MS * 4);
+      expect(world.transitionsFor("abc")).toEqual(["live", "reconnecting", "ended"]);
+      expect(world.events()).toEqual(["stream:start", "recording:stop", "stream:stop"]);
+      expect(world.states.has("abc")).toBe(false);
+    });
+  });
+
+  describe("flapping", () => {
+    it("keeps the session when the encoder reconnects inside the grace period", async () => {
+      await startReplica();
+      await srs.publish("abc");
+      await waitFor(() => world.status("abc") === "live");
+
+      for (let i = 0; i < 3; i++) {
+        await srs.unpublish("abc");
+        await waitFor(() => world.states.get("abc")?.status === "reconnecting");
+        await srs.publish("abc");
+        await waitFor(() => world.states.get("abc")?.status === "live");
+      }
+
+      await sleep(GRACE_MS * 2);
+      expect(world.status("abc")).toBe("live");
+      expect(world.transitionsFor("abc")).toEqual([
+        "live",
+        "reconnecting", "resumed",
+        "reconnecting", "resumed",
+        "reconnecting", "resumed"
+      ]);
+      expect(world.events()).toEqual(["stream:start"]);
+      expect(world.states.get("abc").reconnectingSince).toBeUndefined();
+    });
+
+    it("doesn't announce a stream again when it flaps faster than the poll", async () => {
+      await startReplica();
+      await srs.publish("abc");
+      await waitFor(() => world.status("abc") === "live");
+
+      await srs.runScript([
+        { action: "unpublish", stream: "abc" },
+        { after: 1, action: "publish", stream: "abc" },
+        { after: 1, action: "unpublish", stream: "abc" },
+        { after: 1, action: "publish", stream: "abc" }
+      ]);
+      await sleep(GRACE_MS * 2);
+
+      expect(world.status("abc")).toBe("live");
+      expect(world.events()).toEqual(["stream:start"]);
+      expect(world.transitionsFor("abc")).not.toContain("ended");
+    });
+  });
+
+  describe("SRS API errors", () => {
+    const failures: [string, FakeSrsFailure][] = [
+      ["a non-zero code", { type: "api_error", code: 1 }],
+      ["an HTTP error", { type: "http_error", status: 500 }],
+      ["invalid JSON", { type: "invalid_json" }]
+    ];
+
+    it.each(failures)("doesn't end streams while SRS answers with %s", async (_, failure) => {
+      await startReplica();
+      await srs.publish("abc");
+      await waitFor(() => world.status("abc") === "live");
+
+      srs.fail(failure);
+      await srs.unpublish("abc");
+      await waitForPolls(srs, 5);
+      await sleep(GRACE_MS * 2);
+
+      expect(world.status("abc")).toBe("live");
+      expect(world.states.get("abc").status).toBe("live");
+      expect(world.transitionsFor("abc")).toEqual(["live"]);
+
+      // Once SRS answers again the missing stream goes through the usual grace period
+      srs.recover();
+      await waitFor(() => world.states.get("abc")?.status === "reconnecting");
+      await waitFor(() => world.status("abc") === "ended", GRACE_MS * 4);
+      expect(world.transitionsFor("abc")).toEqual(["live", "reconnecting", "ended"]);
+    });
+
+    it("doesn't start streams from a response with a non-zero code", async () => {
+      await startReplica();
+      srs.fail({ type: "api_error", code: 1 });
+      await srs.publish("abc");
+      await waitForPolls(srs, 5);
+
+      expect(world.status("abc")).toBe("offline");
+      expect(world.events()).toEqual([]);
+    });
+  });
+
+  describe("restarts", () => {
+    it("adopts streams that kept publishing without announcing them again", async () => {
+      await startReplica();
+      await srs.publish("abc");
+      await waitFor(() => world.status("abc") === "live");
+
+      // The old process goes away; Postgres, Redis and SRS keep their state
+      leader.demote();
+      const restarted = await startReplica();
+      await waitForPolls(srs, 5);
+
+      expect(restarted.getStreamSyncStatus().activeStreams).toBe(1);
+      expect(world.status("abc")).toBe("live");
+      expect(world.events()).toEqual(["stream:start"]);
+      expect(world.transitionsFor("abc")).toEqual(["live"]);
+    });
+
+    it("ends streams that stopped publishing while it was down", async () => {
+      world.addStream("abc", { status: "live", actual_start: new Date() });
+      world.states.set("abc", { id: "id-abc", status: "live", node: "origin-a" });
+
+      await startReplica();
+
+      expect(world.status("abc")).toBe("ended");
+      expect(world.transitionsFor("abc")).toEqual(["ended"]);
+      expect(world.states.has("abc")).toBe(false);
+    });
+
+    it("starts streams that began publishing while it was down", async () => {
+      await srs.publish("abc");
+
+      await startReplica();
+
+      expect(world.status("abc")).toBe("live");
+      expect(world.events()).toEqual(["stream:start"]);
+      expect(world.transitions[0].reason).toContain("at startup");
+    });
+
+    it("restores missing Redis state for streams still live in the database and on SRS", async () => {
+      world.addStream("abc", { status: "live", actual_start: new Date() });
+      await srs.publish("abc");
+
+      await startReplica();
+
+      expect(world.states.get("abc")).toMatchObject({ id: "id-abc", status: "live", node: "origin-a" });
+      expect(world.transitionsFor("abc")).toEqual(["state_restored"]);
+      expect(world.events()).toEqual([]);
+    });
+
+    it("trusts the database when SRS is unreachable at startup", async () => {
+      world.addStream("abc", { status: "live", actual_start: new Date() });
+      world.states.set("abc", { id: "id-abc", status: "live", node: "origin-a" });
+      srs.fail({ type: "api_error", code: 1 });
+
+      const streamSync = await startReplica();
+      await waitForPolls(srs, 3);
+
+      expect(streamSync.getStreamSyncStatus().activeStreams).toBe(1);
+      expect(world.status("abc")).toBe("live");
+      expect(world.transitions).toEqual([]);
+
+      srs.recover();
+      await waitFor(() => world.status("abc") === "ended", GRACE_MS * 4);
+      expect(world.transitionsFor("abc")).toEqual(["reconnecting", "ended"]);
+    });
+  });
+});
@@ -1,138 +1,808 @@
 import { query } from "./database";
-import { publish, setStreamState } from "./redis";
+import { publish, setStreamState, getStreamState } from "./redis";
+import { startLeaderElection, isStreamSyncLeader } from "./leaderElection";
+import { ensureIngestHealthSchema, sampleIngestHealth } from "./ingestHealth";
+import { ensureOutboxSchema, startOutboxDispatcher, stopOutboxDispatcher, kickOutbox } from "./eventOutbox";
+import { ensureWebhookSchema, startWebhookDispatcher, stopWebhookDispatcher } from "./webhooks";
+import { ensureRestreamSchema, startRestreamer, stopRestreamer } from "./restreamer";
+import { ensureScheduleSchema, markNoShows } from "./scheduledStreams";
+import { ensurePublishAuthSchema } from "./publishAuth";
+import { ensureStreamKeysSchema, IngestKind } from "./streamKeys";
+import { ensureLiveToVodSchema, startLiveToVod, stopLiveToVod } from "./liveToVod";
+import { ensureVodProgressSchema } from "./vodProgress";
+import { ensureQoeSchema } from "./qoe";
+import { ensureLowLatencySchema } from "./lowLatency";
+import { defineMetric, incCounter, observeHistogram, setGauge, addMetricsCollector } from "./metrics";
 
+// SRS origins to watch. SRS_API_URLS takes a comma-separated list, each entry
+// optionally named: "origin-a=http://srs-a:1985,origin-b=http://srs-b:1985".
+// A single SRS_API_URL is still honoured.
 const SRS_API_URL = process.env.SRS_API_URL || "http://srs:1985";
+const SRS_API_URLS = process.env.SRS_API_URLS || "";
 
-interface SrsStream {
+// An origin that accepts the connection but never answers would otherwise
+// stall every sync cycle behind it
+const SRS_API_TIMEOUT_MS = 5000;
+
+export interface SrsNode {
+  id: string;
+  apiUrl: string;
+}
+
+export interface SrsStream {
   id: string;
   name: string;
   vhost: string;
   app: string;
   url: string;
+  live_ms?: number;
+  clients?: number;
+  frames?: number;
+  recv_bytes?: number;
+  kbps?: {
+    recv_30s: number;
+    send_30s: number;
+  };
   publish: {
     active: boolean;
     cid: string;
   };
+  // null until the encoder has sent a sequence header for that track
+  video?: {
+    codec: string;
+    profile: string;
+    level: string;
+    width: number;
+    height: number;
+  } | null;
+  audio?: {
+    codec: string;
+    sample_rate: number;
+    channel: number;
+    profile: string;
+  } | null;
 }
 
 interface SrsStreamsResponse {
   code: number;
+  server?: string;
   streams: SrsStream[];
 }
 
+// Result of polling every node once. unreachableNodes lets callers avoid
+// ending streams that are only invisible because their node didn't answer.
+interface ClusterSnapshot {
+  publishedOn: Map<string, string[]>; // streamKey -> node ids
+  streams: Map<string, SrsStream>; // streamKey -> SRS details from the first node reporting it
+  unreachableNodes: Set<string>;
+}
+
+export function parseSrsNodes(value: string = SRS_API_URLS): SrsNode[] {
+  const entries = value.split(",").map(e => e.trim()).filter(Boolean);
+  if (entries.length === 0) {
+    return [{ id: "default", apiUrl: SRS_API_URL }];
+  }
+
+  return entries.map(entry => {
+    const separator = entry.indexOf("=");
+    if (separator > 0) {
+      return { id: entry.substring(0, separator), apiUrl: entry.substring(separator + 1) };
+    }
+    return { id: new URL(entry).host, apiUrl: entry };
+  });
+}
+
+let srsNodes: SrsNode[] = parseSrsNodes();
+
+// Everything stream sync talks to outside this module. The defaults are the
+// real Postgres, Redis and SRS clients and the modules that run alongside it
+// on the leader; setStreamSyncClients swaps them out, e.g. to drive it
+// against the scriptable SRS in fakeSrs.ts with in-memory stores instead
+// (see streamSync.test.ts).
+export interface StreamSyncClients {
+  query: typeof query;
+  publish: typeof publish;
+  getStreamState: typeof getStreamState;
+  setStreamState: typeof setStreamState;
+  fetch: typeof fetch;
+  startLeaderElection: typeof startLeaderElection;
+  isLeader: () => boolean;
+  kickOutbox: () => void;
+  sampleIngestHealth: typeof sampleIngestHealth;
+  markNoShows: typeof markNoShows;
+  // Schemas of the modules below, which keep their own tables
+  ensureSchemas: () => Promise<void>;
+  // Dispatchers and workers that only run on the leader
+  startWorkers: () => void;
+  stopWorkers: () => void;
+}
+
+async function ensureModuleSchemas() {
+  await ensureIngestHealthSchema();
+  await ensureOutboxSchema();
+  await ensureWebhookSchema();
+  await ensureRestreamSchema();
+  await ensureScheduleSchema();
+  await ensurePublishAuthSchema();
+  await ensureStreamKeysSchema();
+  await ensureLiveToVodSchema();
+  await ensureVodProgressSchema();
+  await ensureQoeSchema();
+  await ensureLowLatencySchema();
+}
+
+function startLeaderWorkers() {
+  startOutboxDispatcher();
+  startWebhookDispatcher();
+  startRestreamer().catch(error => console.error("Restreamer startup error:", error));
+  startLiveToVod().catch(error => console.error("Live to VOD startup error:", error));
+}
+
+function stopLeaderWorkers() {
+  stopOutboxDispatcher();
+  stopWebhookDispatcher();
+  stopRestreamer();
+  stopLiveToVod();
+}
+
+const defaultClients: StreamSyncClients = {
+  query,
+  publish,
+  getStreamState,
+  setStreamState,
+  fetch: (input, init) => fetch(input, init),
+  startLeaderElection,
+  isLeader: isStreamSyncLeader,
+  kickOutbox,
+  sampleIngestHealth,
+  markNoShows,
+  ensureSchemas: ensureModuleSchemas,
+  startWorkers: startLeaderWorkers,
+  stopWorkers: stopLeaderWorkers
+};
+
+let clients: StreamSyncClients = defaultClients;
+
+// Overrides apply on top of the defaults, not of earlier overrides
+export function setStreamSyncClients(overrides: Partial<StreamSyncClients>) {
+  clients = { ...defaultClients, ...overrides };
+}
+
+
 const knownActiveStreams = new Set<string>();
 
-async function syncStreamStatus() {
+// Node each active stream was last seen publishing on
+const streamNodes = new Map<string, string>();
+
+// Keys currently published on more than one node, so the conflict is only
+// reported once per occurrence
+const duplicateStreams = new Set<string>();
+
+// How long a stream may be missing from SRS before it is treated as ended.
+// Encoders on bad networks drop and reconnect within seconds; inside this
+// window the stream keeps its session and recording, and viewers are told it
+// is reconnecting.
+const STREAM_END_GRACE_MS = parseInt(process.env.STREAM_END_GRACE_MS || "15000", 10);
+
+// Grace timers for streams that have gone missing. Only the leader runs
+// them; other replicas just flag the stream as reconnecting in Redis.
+const pendingEnds = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Last time an SRS hook touched a stream, so a poll that fetched its snapshot
+// before the hook arrived doesn't undo what the hook just did
+const hookUpdatedAt = new Map<string, number>();
+
+defineMetric("stream_sync_is_leader", "gauge", "1 if this replica holds the stream sync lease");
+defineMetric("stream_sync_live_streams", "gauge", "Streams the leader is tracking as live, including reconnecting ones");
+defineMetric("stream_sync_reconnecting_streams", "gauge", "Live streams inside their reconnect grace window");
+defineMetric("stream_sync_cycle_duration_seconds", "histogram", "Time taken by each SRS poll and sync cycle");
+defineMetric("stream_sync_errors_total", "counter", "Stream sync failures, by stage");
+defineMetric("stream_sync_srs_unreachable_total", "counter", "SRS API polls that failed or returned an error, by node");
+defineMetric("stream_sync_transitions_total", "counter", "Stream state changes made by stream sync, by transition");
+
+addMetricsCollector(() => {
+  setGauge("stream_sync_is_leader", undefined, clients.isLeader() ? 1 : 0);
+  setGauge("stream_sync_live_streams", undefined, knownActiveStreams.size);
+  setGauge("stream_sync_reconnecting_streams", undefined, pendingEnds.size);
+});
+
+function changedSinceFetch(streamKey: string, fetchedAt: number): boolean {
+  return (hookUpdatedAt.get(streamKey) || 0) >= fetchedAt;
+}
+
+// Returns null when the node can't be read, so callers can tell "nothing is
+// live" apart from "we don't know"
+async function fetchActiveStreams(node: SrsNode): Promise<SrsStream[] | null> {
   try {
-    const response = await fetch(SRS_API_URL + "/api/v1/streams/");
+    const response = await clients.fetch(node.apiUrl + "/api/v1/streams/", {
+      signal: AbortSignal.timeout(SRS_API_TIMEOUT_MS)
+    });
     if (!response.ok) {
-      console.error("Failed to fetch SRS streams:", response.statusText);
-      return;
+      console.error("Failed to fetch SRS streams from " + node.id + ":", response.statusText);
+      incCounter("stream_sync_srs_unreachable_total", { node: node.id });
+      return null;
     }
 
     const data = await response.json() as SrsStreamsResponse;
 
     if (data.code !== 0) {
-      console.error("SRS API error:", data);
+      console.error("SRS API error from " + node.id + ":", data);
+      incCounter("stream_sync_srs_unreachable_total", { node: node.id });
+      return null;
+    }
+
+    return data.streams
+      .filter(s => s.publish?.active)
+      .map(s => ({ ...s, name: s.name.replace(".m3u8", "") }));
+  } catch (error) {
+    console.error("Failed to reach SRS node " + node.id + ":", error);
+    incCounter("stream_sync_srs_unreachable_total", { node: node.id });
+    return null;
+  }
+}
+
+async function fetchClusterSnapshot(): Promise<ClusterSnapshot> {
+  const results = await Promise.all(srsNodes.map(fetchActiveStreams));
+
+  const snapshot: ClusterSnapshot = { publishedOn: new Map(), streams: new Map(), unreachableNodes: new Set() };
+  results.forEach((streams, i) => {
+    const nodeId = srsNodes[i].id;
+    if (!streams) {
+      snapshot.unreachableNodes.add(nodeId);
       return;
     }
+    for (const stream of streams) {
+      const nodes = snapshot.publishedOn.get(stream.name) || [];
+      nodes.push(nodeId);
+      snapshot.publishedOn.set(stream.name, nodes);
+      if (!snapshot.streams.has(stream.name)) {
+        snapshot.streams.set(stream.name, stream);
+      }
+    }
+  });
 
-    const activeStreamKeys = new Set(
-      data.streams
-        .filter(s => s.publish?.active)
-        .map(s => s.name.replace(".m3u8", ""))
-    );
+  return snapshot;
+}
+
+// A stream that has gone missing can only be called ended if the node it
+// was on answered; otherwise it may still be live behind an outage
+function canConfirmEnded(streamKey: string, snapshot: ClusterSnapshot): boolean {
+  const nodeId = streamNodes.get(streamKey);
+  if (nodeId) {
+    return !snapshot.unreachableNodes.has(nodeId);
+  }
+  return snapshot.unreachableNodes.size === 0;
+}
+
+async function setStreamNode(streamKey: string, nodeId: string) {
+  if (streamNodes.get(streamKey) === nodeId) return;
+  streamNodes.set(streamKey, nodeId);
+
+  const state = await clients.getStreamState(streamKey);
+  if (state) {
+    await clients.setStreamState(streamKey, { ...state, node: nodeId });
+  }
+}
+
+async function checkDuplicatePublish(streamKey: string, nodeIds: string[]) {
+  if (nodeIds.length < 2) {
+    duplicateStreams.delete(streamKey);
+    return;
+  }
+  if (duplicateStreams.has(streamKey)) return;
+
+  duplicateStreams.add(streamKey);
+  console.warn("Stream sync: Stream " + streamKey + " is published on multiple nodes: " + nodeIds.join(", "));
+  await clients.publish("stream:duplicate", { streamKey, nodes: nodeIds });
+}
+
+export async function syncStreamStatus() {
+  const fetchedAt = Date.now();
+  try {
+    const snapshot = await fetchClusterSnapshot();
+    if (snapshot.unreachableNodes.size === srsNodes.length) return;
+
+    for (const [streamKey, nodeIds] of snapshot.publishedOn) {
+      await checkDuplicatePublish(streamKey, nodeIds);
+
+      if (changedSinceFetch(streamKey, fetchedAt)) continue;
+
+      // Stay on the node we already know about while it still has the stream
+      const currentNode = streamNodes.get(streamKey);
+      const nodeId = currentNode && nodeIds.includes(currentNode) ? currentNode : nodeIds[0];
 
-    for (const streamKey of activeStreamKeys) {
       if (!knownActiveStreams.has(streamKey)) {
-        console.log("Stream sync: Detected new active stream " + streamKey);
-        await handleStreamStart(streamKey);
+        console.log("Stream sync: Detected new active stream " + streamKey + " on " + nodeId);
+        streamNodes.set(streamKey, nodeId);
+        await handleStreamStart(streamKey, "Publishing on SRS node " + nodeId);
         knownActiveStreams.add(streamKey);
+        continue;
+      }
+
+      if (pendingEnds.has(streamKey)) {
+        await resumeStream(streamKey, "Publishing again on SRS node " + nodeId);
+      }
+      if (nodeId !== currentNode) {
+        await failoverStream(streamKey, currentNode || null, nodeId, "No longer publishing on " + (currentNode || "unknown") + ", still publishing on " + nodeId);
       }
     }
 
     for (const streamKey of knownActiveStreams) {
-      if (!activeStreamKeys.has(streamKey)) {
-        console.log("Stream sync: Detected stream ended " + streamKey);
-        await handleStreamEnd(streamKey);
-        knownActiveStreams.delete(streamKey);
+      if (snapshot.publishedOn.has(streamKey) || changedSinceFetch(streamKey, fetchedAt)) continue;
+
+      if (!canConfirmEnded(streamKey, snapshot)) {
+        continue; // Its node is down; wait until it answers again
       }
+
+      await markStreamMissing(streamKey, "No longer publishing on SRS node " + (streamNodes.get(streamKey) || "unknown"));
+    }
+
+    await clients.sampleIngestHealth(
+      new Map([...snapshot.streams].filter(([streamKey]) => knownActiveStreams.has(streamKey)))
+    );
+
+    // After the SRS poll, so a stream that just started publishing has
+    // already gone live rather than being marked a no-show
+    const noShows = await clients.markNoShows();
+    if (noShows.length > 0) {
+      clients.kickOutbox();
+    }
+    for (const stream of noShows) {
+      await recordTransition(stream.stream_key, stream.id, "no_show", "Nobody published after the scheduled start");
+      console.log("Stream sync: Stream " + stream.id + " marked as no-show");
     }
   } catch (error) {
     console.error("Stream sync error:", error);
+    incCounter("stream_sync_errors_total", { stage: "sync" });
+  } finally {
+    observeHistogram("stream_sync_cycle_duration_seconds", (Date.now() - fetchedAt) / 1000);
+  }
+}
+
+async function endStream(streamKey: string, reason: string) {
+  knownActiveStreams.delete(streamKey);
+  streamNodes.delete(streamKey);
+  duplicateStreams.delete(streamKey);
+  await handleStreamEnd(streamKey, reason);
+}
+
+// Start the grace window for a stream that disappeared. It is only ended if
+// it is still gone when the window closes.
+async function markStreamMissing(streamKey: string, reason: string) {
+  if (pendingEnds.has(streamKey)) return;
+
+  if (STREAM_END_GRACE_MS <= 0) {
+    console.log("Stream sync: Detected stream ended " + streamKey);
+    await endStream(streamKey, reason);
+    return;
   }
+
+  if (clients.isLeader()) {
+    pendingEnds.set(streamKey, setTimeout(async () => {
+      pendingEnds.delete(streamKey);
+      try {
+        // A replica that saw the reconnect hook will have set it live again
+        const state = await clients.getStreamState(streamKey);
+        if (state && state.status !== "reconnecting") return;
+
+        console.log("Stream sync: Detected stream ended " + streamKey);
+        await endStream(streamKey, reason + " for " + STREAM_END_GRACE_MS + "ms");
+      } catch (error) {
+        console.error("Stream sync error for " + streamKey + ":", error);
+        incCounter("stream_sync_errors_total", { stage: "grace_end" });
+      }
+    }, STREAM_END_GRACE_MS));
+  }
+
+  const state = await clients.getStreamState(streamKey);
+  if (!state || state.status === "reconnecting") return;
+
+  console.log("Stream sync: Stream " + streamKey + " went missing, waiting " + STREAM_END_GRACE_MS + "ms for it to reconnect");
+  await clients.setStreamState(streamKey, {
+    ...state,
+    status: "reconnecting",
+    reconnectingSince: new Date().toISOString()
+  });
+  await clients.publish("stream:reconnecting", { streamId: state.id, streamKey });
+  await recordTransition(streamKey, state.id, "reconnecting", reason);
 }
 
-async function handleStreamStart(streamKey: string) {
+// Close the grace window for a stream that came back, continuing the same
+// session instead of starting a new one
+async function resumeStream(streamKey: string, reason: string) {
+  const timer = pendingEnds.get(streamKey);
+  if (timer) {
+    clearTimeout(timer);
+    pendingEnds.delete(streamKey);
+  }
+
+  const state = await clients.getStreamState(streamKey);
+  if (!state || state.status !== "reconnecting") return;
+
+  const { reconnectingSince, ...liveState } = state;
+  await clients.setStreamState(streamKey, { ...liveState, status: "live" });
+  await clients.publish("stream:resumed", { streamId: state.id, streamKey });
+  await recordTransition(streamKey, state.id, "resumed", reason);
+  console.log("Stream sync: Stream " + streamKey + " reconnected after " + (Date.now() - new Date(reconnectingSince).getTime()) + "ms");
+}
+
+// Switch a live stream over to the encoder on another origin, e.g. from the
+// primary to a backup that was publishing redundantly
+async function failoverStream(streamKey: string, fromNode: string | null, toNode: string, reason: string) {
+  await setStreamNode(streamKey, toNode);
+
+  const state = await clients.getStreamState(streamKey);
+  if (!state) return;
+
+  const ingests = { ...state.ingests };
+  if (fromNode) {
+    delete ingests[fromNode];
+  }
+  await clients.setStreamState(streamKey, { ...state, ingests });
+  await clients.publish("stream:failover", { streamId: state.id, streamKey, fromNode, toNode, ingest: ingests[toNode] || null });
+  await recordTransition(streamKey, state.id, "failover", reason);
+  console.log("Stream sync: Stream " + streamKey + " failed over from " + (fromNode || "unknown") + " to " + toNode);
+}
+
+// Remember which ingest key is publishing on each origin, so auth can tell a
+// backup encoder from a second copy of the same key
+async function setStreamIngest(streamKey: string, nodeId: string, ingest: IngestKind | null) {
+  const state = await clients.getStreamState(streamKey);
+  if (!state) return;
+
+  const ingests = { ...state.ingests };
+  if (ingest) {
+    ingests[nodeId] = ingest;
+  } else {
+    delete ingests[nodeId];
+  }
+  await clients.setStreamState(streamKey, { ...state, ingests });
+}
+
+async function ensureStreamSyncSchema() {
+  await clients.query(`
+    CREATE TABLE IF NOT EXISTS stream_sync_transitions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      stream_id UUID,
+      stream_key VARCHAR(255) NOT NULL,
+      transition VARCHAR(50) NOT NULL,
+      reason TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `, []);
+  await clients.query(
+    "CREATE INDEX IF NOT EXISTS idx_stream_sync_transitions_key ON stream_sync_transitions(stream_key, created_at)",
+    []
+  );
+  await clients.ensureSchemas();
+}
+
+// Audit trail of every state change stream sync makes and why it made it
+async function recordTransition(streamKey: string, streamId: string | null, transition: string, reason: string) {
+  incCounter("stream_sync_transitions_total", { transition });
   try {
-    const result = await query(
-      "UPDATE streams SET status = $2, actual_start = COALESCE(actual_start, NOW()), updated_at = NOW() WHERE stream_key = $1 AND status != $2 RETURNING id, user_id, title, recording_enabled",
+    await clients.query(
+      "INSERT INTO stream_sync_transitions (stream_id, stream_key, transition, reason) VALUES ($1, $2, $3, $4)",
+      [streamId, streamKey, transition, reason]
+    );
+  } catch (error) {
+    console.error("Stream sync: Failed to record transition for " + streamKey + ":", error);
+  }
+}
+
+// Rebuild knownActiveStreams after a restart from the DB, Redis and SRS, so
+// streams that kept running aren't announced again and streams that stopped
+// while we were down are finally ended
+export async function reconcileOnStartup() {
+  const liveResult = await clients.query(
+    "SELECT id, stream_key, recording_enabled, actual_start FROM streams WHERE status = $1",
+    ["live"]
+  );
+  const snapshot = await fetchClusterSnapshot();
+
+  if (snapshot.unreachableNodes.size === srsNodes.length) {
+    // Without SRS we can't tell what ended. Trust the DB and let the poller
+    // settle it once SRS answers.
+    for (const stream of liveResult.rows) {
+      knownActiveStreams.add(stream.stream_key);
+    }
+    console.log("Stream sync: SRS unreachable at startup, adopted " + liveResult.rows.length + " live stream(s) from DB");
+    return;
+  }
+
+  const liveInDb = new Set<string>();
+  for (const stream of liveResult.rows) {
+    liveInDb.add(stream.stream_key);
+
+    const state = await clients.getStreamState(stream.stream_key);
+    if (state?.node) {
+      streamNodes.set(stream.stream_key, state.node);
+    }
+
+    const nodeIds = snapshot.publishedOn.get(stream.stream_key);
+    if (!nodeIds) {
+      if (canConfirmEnded(stream.stream_key, snapshot)) {
+        await handleStreamEnd(stream.stream_key, "Live in DB but not publishing on SRS at startup; ended while stream sync was down");
+        streamNodes.delete(stream.stream_key);
+      } else {
+        // Its node is down, so leave it for the poller to decide
+        knownActiveStreams.add(stream.stream_key);
+      }
+      continue;
+    }
+
+    knownActiveStreams.add(stream.stream_key);
+    await checkDuplicatePublish(stream.stream_key, nodeIds);
+
+    const nodeId = state?.node && nodeIds.includes(state.node) ? state.node : nodeIds[0];
+    if (state?.status === "reconnecting") {
+      // Came back while we were down
+      await resumeStream(stream.stream_key, "Publishing on SRS node " + nodeId + " at startup");
+      delete state.reconnectingSince;
+    }
+    streamNodes.set(stream.stream_key, nodeId);
+
+    if (!state || state.node !== nodeId) {
+      await clients.setStreamState(stream.stream_key, {
+        ...state,
+        id: stream.id,
+        status: "live",
+        startTime: state?.startTime || new Date(stream.actual_start || Date.now()).toISOString(),
+        recordingEnabled: stream.recording_enabled,
+        node: nodeId
+      });
+      if (!state) {
+        await recordTransition(stream.stream_key, stream.id, "state_restored", "Live in DB and on SRS node " + nodeId + " but Redis state was missing");
+      }
+    }
+  }
+
+  for (const [streamKey, nodeIds] of snapshot.publishedOn) {
+    if (!liveInDb.has(streamKey)) {
+      await checkDuplicatePublish(streamKey, nodeIds);
+      streamNodes.set(streamKey, nodeIds[0]);
+      await handleStreamStart(streamKey, "Publishing on SRS node " + nodeIds[0] + " at startup but not live in DB; started while stream sync was down");
+      knownActiveStreams.add(streamKey);
+    }
+  }
+
+  console.log("Stream sync: Startup reconciliation done, " + knownActiveStreams.size + " active stream(s)");
+}
+
+async function handleStreamStart(streamKey: string, reason: string) {
+  try {
+    // The status change and its events commit together; eventOutbox publishes
+    // them, so a Redis outage can't leave a live stream nobody was told about
+    const result = await clients.query(
+      `WITH updated AS (
+         UPDATE streams SET status = $2, actual_start = COALESCE(actual_start, NOW()), updated_at = NOW()
+         WHERE stream_key = $1 AND status != $2
+         RETURNING id, user_id, title, recording_enabled
+       ), events AS (
+         INSERT INTO stream_event_outbox (event, payload)
+         SELECT 'stream:start', jsonb_build_object('streamId', id, 'streamKey', $1::text, 'userId', user_id, 'title', title, 'recordingEnabled', recording_enabled)
+         FROM updated
+         UNION ALL
+         SELECT 'recording:start', jsonb_build_object('streamId', id, 'streamKey', $1::text, 'userId', user_id, 'title', title)
+         FROM updated WHERE recording_enabled
+       )
+       SELECT * FROM updated`,
       [streamKey, "live"]
     );
 
     if (result.rows.length > 0) {
       const stream = result.rows[0];
 
-      await setStreamState(streamKey, {
+      await clients.setStreamState(streamKey, {
         id: stream.id,
         status: "live",
         startTime: new Date().toISOString(),
-        recordingEnabled: stream.recording_enabled
-      });
-
-      await publish("stream:start", {
-        streamId: stream.id,
-        streamKey,
-        userId: stream.user_id,
-        recordingEnabled: stream.recording_enabled
+        recordingEnabled: stream.recording_enabled,
+        node: streamNodes.get(streamKey) || null
       });
+      clients.kickOutbox();
 
-      // Trigger recording if enabled
       if (stream.recording_enabled) {
         console.log("Stream sync: Starting recording for stream " + stream.id);
-        await publish("recording:start", {
-          streamId: stream.id,
-          streamKey: streamKey,
-          userId: stream.user_id,
-          title: stream.title
-        });
       }
 
-      console.log("Stream sync: Stream " + stream.id + " marked as live");
+      await recordTransition(streamKey, stream.id, "live", reason);
+      console.log("Stream sync: Stream " + stream.id + " marked as live (" + reason + ")");
     }
   } catch (error) {
     console.error("Stream sync error for " + streamKey + ":", error);
+    incCounter("stream_sync_errors_total", { stage: "start" });
   }
 }
 
-async function handleStreamEnd(streamKey: string) {
+async function handleStreamEnd(streamKey: string, reason: string) {
   try {
-    const result = await query(
-      "UPDATE streams SET status = $2, actual_end = NOW(), updated_at = NOW() WHERE stream_key = $1 AND status = $3 RETURNING id",
+    // recording:stop is written first so the recorder stops before
+    // stream:stop listeners tear anything down
+    const result = await clients.query(
+      `WITH updated AS (
+         UPDATE streams SET status = $2, actual_end = NOW(), updated_at = NOW()
+         WHERE stream_key = $1 AND status = $3
+         RETURNING id, user_id
+       ), events AS (
+         INSERT INTO stream_event_outbox (event, payload)
+         SELECT 'recording:stop', jsonb_build_object('streamId', id, 'streamKey', $1::text, 'userId', user_id)
+         FROM updated
+         UNION ALL
+         SELECT 'stream:stop', jsonb_build_object('streamId', id, 'streamKey', $1::text, 'userId', user_id)
+         FROM updated
+       )
+       SELECT * FROM updated`,
       [streamKey, "ended", "live"]
     );
 
     if (result.rows.length > 0) {
-      // Stop recording first
-      await publish("recording:stop", {
-        streamId: result.rows[0].id,
-        streamKey: streamKey
-      });
-
-      await setStreamState(streamKey, null);
-      await publish("stream:stop", {
-        streamId: result.rows[0].id,
-        streamKey
-      });
-      console.log("Stream sync: Stream " + result.rows[0].id + " marked as ended");
+      await clients.setStreamState(streamKey, null);
+      clients.kickOutbox();
+      await recordTransition(streamKey, result.rows[0].id, "ended", reason);
+      console.log("Stream sync: Stream " + result.rows[0].id + " marked as ended (" + reason + ")");
     }
   } catch (error) {
     console.error("Stream sync error for " + streamKey + ":", error);
+    incCounter("stream_sync_errors_total", { stage: "end" });
   }
 }
 
-export function startStreamSync(intervalMs: number = 5000) {
-  console.log("Starting stream sync service (interval: " + intervalMs + "ms)");
-  syncStreamStatus();
-  setInterval(syncStreamStatus, intervalMs);
+// Hook entry points. Both handlers are guarded by the status check in their
+// UPDATE, so a hook and a poll reporting the same change only publish once.
+// nodeId is the origin that sent the hook, when its hook URL names one.
+export async function applyPublishHook(streamKey: string, nodeId?: string, ingest: IngestKind = "primary") {
+  hookUpdatedAt.set(streamKey, Date.now());
+  if (nodeId) {
+    const state = await clients.getStreamState(streamKey);
+    const liveNode = state && state.status === "live" ? state.node : null;
+    const liveIngest = liveNode ? state.ingests?.[liveNode] || "primary" : null;
+
+    // The other encoder coming up on a second origin while this one is live
+    // stands by, and takes over if the live one drops
+    if (liveNode && liveNode !== nodeId && liveIngest !== ingest) {
+      console.log("Stream sync: " + ingest + " encoder for " + streamKey + " standing by on " + nodeId + ", live on " + liveNode);
+      await setStreamIngest(streamKey, nodeId, ingest);
+      return;
+    }
+
+    if (liveNode && liveNode !== nodeId) {
+      await failoverStream(streamKey, liveNode, nodeId, "SRS on_publish hook from " + nodeId);
+    } else {
+      await setStreamNode(streamKey, nodeId);
+    }
+  }
+  knownActiveStreams.add(streamKey);
+  // Still live in the DB if it reconnected inside the grace window, in which
+  // case handleStreamStart is a no-op and this resumes the session instead
+  await resumeStream(streamKey, "SRS on_publish hook" + (nodeId ? " from " + nodeId : ""));
+  await handleStreamStart(streamKey, "SRS on_publish hook" + (nodeId ? " from " + nodeId : ""));
+  if (nodeId) {
+    await setStreamIngest(streamKey, nodeId, ingest);
+  }
+}
+
+export async function applyUnpublishHook(streamKey: string, nodeId?: string) {
+  // An encoder that failed over to another origin unpublishes from the old
+  // one after it is already live on the new one
+  const currentNode = streamNodes.get(streamKey);
+  if (nodeId && currentNode && currentNode !== nodeId) {
+    console.log("Stream sync: Ignoring on_unpublish for " + streamKey + " from " + nodeId + ", live on " + currentNode);
+    await setStreamIngest(streamKey, nodeId, null);
+    return;
+  }
+
+  hookUpdatedAt.set(streamKey, Date.now());
+
+  // Fail over to a backup encoder on another origin rather than waiting out
+  // the grace window
+  if (nodeId) {
+    const standby = await findOtherPublisher(streamKey, nodeId);
+    if (standby) {
+      await failoverStream(streamKey, nodeId, standby.node, "SRS on_unpublish hook from " + nodeId + ", " + standby.ingest + " encoder live on " + standby.node);
+      return;
+    }
+  }
+
+  await markStreamMissing(streamKey, "SRS on_unpublish hook" + (nodeId ? " from " + nodeId : ""));
+}
+
+// Another origin the stream is currently publishing on, optionally only with
+// the given ingest key. Checked against that origin's API rather than trusted
+// from state, so an origin that died with the stream on it doesn't lock the
+// key out. Runs on any replica, so it reads Redis rather than this process's
+// maps.
+export async function findOtherPublisher(streamKey: string, nodeId: string, ingest?: IngestKind): Promise<{ node: string; ingest: IngestKind } | null> {
+  const state = await clients.getStreamState(streamKey);
+  if (!state || state.status !== "live") return null;
+
+  // State written before ingest keys existed only knows the live node
+  const ingests: Record<string, IngestKind> = state.ingests || (state.node ? { [state.node]: "primary" } : {});
+
+  for (const [otherNode, otherIngest] of Object.entries(ingests)) {
+    if (otherNode === nodeId || (ingest && otherIngest !== ingest)) continue;
+
+    const node = srsNodes.find(n => n.id === otherNode);
+    if (!node) continue;
+
+    const streams = await fetchActiveStreams(node);
+    if (streams && streams.some(s => s.name === streamKey)) {
+      return { node: otherNode, ingest: otherIngest };
+    }
+  }
+  return null;
+}
+
+// on_hls / on_dvr only fire while a stream is publishing, so treat them as
+// proof of life in case the on_publish hook was lost
+export async function applyLivenessHook(streamKey: string, nodeId?: string) {
+  if (knownActiveStreams.has(streamKey)) return;
+  console.log("Stream sync: Hook reported activity for unknown stream " + streamKey);
+  hookUpdatedAt.set(streamKey, Date.now());
+  if (nodeId) {
+    streamNodes.set(streamKey, nodeId);
+  }
+  knownActiveStreams.add(streamKey);
+  await handleStreamStart(streamKey, "SRS segment hook for a stream with no on_publish");
+}
+
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+export function getStreamSyncStatus() {
+  return {
+    running: syncTimer !== null,
+    activeStreams: knownActiveStreams.size,
+    reconnectingStreams: [...pendingEnds.keys()],
+    nodes: srsNodes.map(n => n.id),
+    duplicateStreams: [...duplicateStreams]
+  };
+}
+
+export function resetSyncState() {
+  for (const timer of pendingEnds.values()) {
+    clearTimeout(timer);
+  }
+  pendingEnds.clear();
+  knownActiveStreams.clear();
+  streamNodes.clear();
+  duplicateStreams.clear();
+  hookUpdatedAt.clear();
+}
+
+// Every replica calls this, but only the lease holder polls SRS. Hooks are
+// still handled by whichever replica SRS reaches, since the handlers are
+// idempotent.
+export function startStreamSync(intervalMs: number = 5000, nodes: SrsNode[] = srsNodes) {
+  srsNodes = nodes;
+  console.log("Starting stream sync service (interval: " + intervalMs + "ms, nodes: " + nodes.map(n => n.id).join(", ") + ")");
+
+  // Followers write outbox rows from hooks too, so every replica needs the schema
+  const schemaReady = ensureStreamSyncSchema()
+    .catch(error => console.error("Stream sync schema error:", error));
+
+  clients.startLeaderElection(
+    () => {
+      // Another replica may have changed things while we were a follower, so
+      // rebuild from scratch. Don't poll until that's done, or every live
+      // stream would look new again.
+      resetSyncState();
+      schemaReady
+        .then(reconcileOnStartup)
+        .catch(error => console.error("Stream sync startup reconciliation error:", error))
+        .finally(() => {
+          if (clients.isLeader() && !syncTimer) {
+            syncTimer = setInterval(syncStreamStatus, intervalMs);
+            clients.startWorkers();
+          }
+        });
+    },
+    () => {
+      if (syncTimer) {
+        clearInterval(syncTimer);
+        syncTimer = null;
+      }
+      clients.stopWorkers();
+      resetSyncState();
+    }
+  );
 }
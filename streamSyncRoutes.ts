@@ -0,0 +1,44 @@
+import { Router } from "express";
+import { authMiddleware, requireAdmin } from "./auth";
+import { getLeaderStatus } from "./leaderElection";
+import { getStreamSyncStatus } from "./streamSync";
+import { listDeadEvents, retryDeadEvent } from "./eventOutbox";
+
+export const streamSyncRouter = Router();
+
+// Which replica holds the stream sync lease, as seen from this replica
+streamSyncRouter.get("/status", authMiddleware, requireAdmin, async (req, res) => {
+  try {
+    const leader = await getLeaderStatus();
+    res.json({
+      ...leader,
+      sync: getStreamSyncStatus()
+    });
+  } catch (error) {
+    console.error("Error getting stream sync status:", error);
+    res.status(500).json({ error: "Failed to get stream sync status" });
+  }
+});
+
+// Lifecycle events that ran out of delivery attempts
+streamSyncRouter.get("/outbox/dead", authMiddleware, requireAdmin, async (req, res) => {
+  try {
+    res.json(await listDeadEvents());
+  } catch (error) {
+    console.error("Error listing dead outbox events:", error);
+    res.status(500).json({ error: "Failed to list dead events" });
+  }
+});
+
+streamSyncRouter.post("/outbox/:id/retry", authMiddleware, requireAdmin, async (req, res) => {
+  try {
+    const requeued = await retryDeadEvent(req.params.id);
+    if (!requeued) {
+      return res.status(404).json({ error: "Dead event not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error retrying outbox event:", error);
+    res.status(500).json({ error: "Failed to retry event" });
+  }
+});
@@ -0,0 +1,230 @@
+import { Router, Response } from "express";
+import { createClient, RedisClientType } from "redis";
+import { getPublicStreamStatus } from "./publicStreamRoutes";
+import { defineMetric, setGauge, addMetricsCollector } from "./metrics";
+
+// Server-sent events for live viewers: the viewer count and stream status
+// are pushed as they change, replacing the player's 10s count poll and 15s
+// heartbeat. An open channel is the viewer's presence, refreshed here while
+// it stays connected and dropped when it closes.
+//
+// Presence lives in a Redis sorted set per stream (viewer id scored by when
+// it was last seen), so counts are shared by every API replica. The polling
+// fallback (GET /viewers and POST /heartbeat below) uses the same set, so
+// both kinds of viewer are counted together. This router has to be mounted
+// in place of any older in-memory /viewers and /heartbeat handlers.
+//
+// Each replica checks its own subscribed streams every VIEWER_PUSH_INTERVAL_MS,
+// one Redis read per stream rather than per viewer, and only sends what
+// changed.
+const VIEWER_PUSH_INTERVAL_MS = parseInt(process.env.VIEWER_PUSH_INTERVAL_MS || "2000", 10);
+const VIEWER_TIMEOUT_MS = 30000; // Two missed polling heartbeats
+const PRESENCE_REFRESH_MS = 10000;
+const KEEPALIVE_MS = 15000; // Comment line so proxies don't close idle connections
+
+interface Subscriber {
+  viewerId: string;
+  res: Response;
+}
+
+interface ChannelState {
+  subscribers: Set<Subscriber>;
+  viewers: number | null;
+  status: string | null; // JSON of the last status sent
+}
+
+const channels = new Map<string, ChannelState>();
+let redis: RedisClientType | null = null;
+let pushTimer: ReturnType<typeof setInterval> | null = null;
+let lastPresenceRefreshAt = 0;
+let lastKeepaliveAt = 0;
+
+defineMetric("viewer_channel_connections", "gauge", "Open viewer channel (SSE) connections on this replica");
+defineMetric("viewer_channel_streams", "gauge", "Streams with at least one viewer channel connection on this replica");
+
+addMetricsCollector(() => {
+  let connections = 0;
+  channels.forEach(channel => { connections += channel.subscribers.size; });
+  setGauge("viewer_channel_connections", undefined, connections);
+  setGauge("viewer_channel_streams", undefined, channels.size);
+});
+
+async function getClient(): Promise<RedisClientType> {
+  if (!redis) {
+    redis = createClient({ url: process.env.REDIS_URL });
+    redis.on("error", (error) => console.error("Viewer channel Redis error:", error));
+    await redis.connect();
+  }
+  return redis;
+}
+
+function presenceKey(streamKey: string): string {
+  return "viewers:" + streamKey;
+}
+
+export async function touchViewer(streamKey: string, viewerId: string) {
+  const client = await getClient();
+  await client.zAdd(presenceKey(streamKey), { score: Date.now(), value: viewerId });
+}
+
+export async function removeViewer(streamKey: string, viewerId: string) {
+  const client = await getClient();
+  await client.zRem(presenceKey(streamKey), viewerId);
+}
+
+export async function countViewers(streamKey: string): Promise<number> {
+  const client = await getClient();
+  const key = presenceKey(streamKey);
+  await client.zRemRangeByScore(key, 0, Date.now() - VIEWER_TIMEOUT_MS);
+  return client.zCard(key);
+}
+
+function send(res: Response, event: string, data: unknown) {
+  res.write("event: " + event + "\ndata: " + JSON.stringify(data) + "\n\n");
+}
+
+async function pushUpdates() {
+  const now = Date.now();
+  const refreshPresence = now - lastPresenceRefreshAt >= PRESENCE_REFRESH_MS;
+  const keepalive = now - lastKeepaliveAt >= KEEPALIVE_MS;
+  if (refreshPresence) lastPresenceRefreshAt = now;
+  if (keepalive) lastKeepaliveAt = now;
+
+  for (const [streamKey, channel] of channels) {
+    try {
+      if (refreshPresence) {
+        const client = await getClient();
+        await client.zAdd(
+          presenceKey(streamKey),
+          [...channel.subscribers].map(s => ({ score: now, value: s.viewerId }))
+        );
+      }
+
+      const viewers = await countViewers(streamKey);
+      if (viewers !== channel.viewers) {
+        channel.viewers = viewers;
+        channel.subscribers.forEach(s => send(s.res, "viewers", { viewers }));
+      }
+
+      const status = JSON.stringify(await getPublicStreamStatus(streamKey));
+      if (status !== channel.status) {
+        channel.status = status;
+        channel.subscribers.forEach(s => send(s.res, "status", JSON.parse(status)));
+      }
+
+      if (keepalive) {
+        channel.subscribers.forEach(s => s.res.write(": keepalive\n\n"));
+      }
+    } catch (error) {
+      console.error("Viewer channel update failed for " + streamKey + ":", error);
+    }
+  }
+}
+
+function ensurePushLoop() {
+  if (pushTimer) return;
+  let running = false;
+  pushTimer = setInterval(async () => {
+    // A slow Redis shouldn't stack up overlapping rounds
+    if (running) return;
+    running = true;
+    try {
+      await pushUpdates();
+    } finally {
+      running = false;
+    }
+  }, VIEWER_PUSH_INTERVAL_MS);
+}
+
+function stopPushLoopIfIdle() {
+  if (channels.size > 0 || !pushTimer) return;
+  clearInterval(pushTimer);
+  pushTimer = null;
+}
+
+// ==================== VIEWER CHANNEL API ====================
+// Mounted under /api/streams/public, e.g. GET /api/streams/public/:streamKey/events
+
+export const viewerChannelRouter = Router();
+
+function getViewerId(value: unknown): string {
+  return typeof value === "string" ? value.slice(0, 64) : "";
+}
+
+// Polling fallback for players without an open channel
+viewerChannelRouter.get("/:streamKey/viewers", async (req, res) => {
+  try {
+    res.json({ viewers: await countViewers(req.params.streamKey) });
+  } catch (error) {
+    console.error("Error getting viewer count:", error);
+    res.status(500).json({ error: "Failed to get viewer count" });
+  }
+});
+
+viewerChannelRouter.post("/:streamKey/heartbeat", async (req, res) => {
+  const viewerId = getViewerId(req.body?.viewerId);
+  if (!viewerId) {
+    return res.status(400).json({ error: "viewerId is required" });
+  }
+
+  try {
+    await touchViewer(req.params.streamKey, viewerId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error recording viewer heartbeat:", error);
+    res.status(500).json({ error: "Failed to record heartbeat" });
+  }
+});
+
+viewerChannelRouter.get("/:streamKey/events", async (req, res) => {
+  const streamKey = req.params.streamKey;
+  const viewerId = getViewerId(req.query.viewerId);
+  if (!viewerId) {
+    return res.status(400).json({ error: "viewerId is required" });
+  }
+
+  try {
+    await touchViewer(streamKey, viewerId);
+    const [viewers, status] = await Promise.all([countViewers(streamKey), getPublicStreamStatus(streamKey)]);
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no" // Don't let nginx hold events back
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+    send(res, "viewers", { viewers });
+    send(res, "status", status);
+
+    let channel = channels.get(streamKey);
+    if (!channel) {
+      channel = { subscribers: new Set(), viewers, status: JSON.stringify(status) };
+      channels.set(streamKey, channel);
+    }
+    const subscriber: Subscriber = { viewerId, res };
+    channel.subscribers.add(subscriber);
+    ensurePushLoop();
+
+    req.on("close", () => {
+      channel!.subscribers.delete(subscriber);
+      if (channel!.subscribers.size === 0) {
+        channels.delete(streamKey);
+        stopPushLoopIfIdle();
+      }
+      // Another tab or a reconnect may still be using the same id
+      const stillConnected = [...(channels.get(streamKey)?.subscribers || [])].some(s => s.viewerId === viewerId);
+      if (!stillConnected) {
+        removeViewer(streamKey, viewerId).catch(console.error);
+      }
+    });
+  } catch (error) {
+    console.error("Error opening viewer channel:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to open viewer channel" });
+    } else {
+      res.end();
+    }
+  }
+});
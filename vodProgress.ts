@@ -0,0 +1,70 @@
+import { Router } from "express";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+
+// Where signed-in viewers left off in each VOD, so playback can resume on any
+// device. Anonymous viewers' positions only live in the player's
+// localStorage. The player saves while watching and on leaving the page;
+// deciding whether a position is worth resuming is left to the player.
+
+export async function ensureVodProgressSchema() {
+  await query(`
+    CREATE TABLE IF NOT EXISTS vod_watch_progress (
+      user_id UUID NOT NULL,
+      vod_id UUID NOT NULL,
+      position_seconds REAL NOT NULL,
+      duration_seconds REAL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, vod_id)
+    )
+  `, []);
+}
+
+// ==================== WATCH PROGRESS API ====================
+// Mounted under /api/vod, e.g. PUT /api/vod/:id/progress
+
+export const vodProgressRouter = Router();
+
+vodProgressRouter.get("/:id/progress", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const result = await query(
+      `SELECT position_seconds, duration_seconds, updated_at
+       FROM vod_watch_progress WHERE user_id = $1 AND vod_id = $2`,
+      [req.user!.id, req.params.id]
+    );
+    res.json(result.rows[0] || { position_seconds: 0, duration_seconds: null, updated_at: null });
+  } catch (error) {
+    console.error("Error fetching watch progress:", error);
+    res.status(500).json({ error: "Failed to fetch watch progress" });
+  }
+});
+
+vodProgressRouter.put("/:id/progress", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const position = Number(req.body.position_seconds);
+    const duration = req.body.duration_seconds !== undefined ? Number(req.body.duration_seconds) : null;
+    if (!isFinite(position) || position < 0) {
+      return res.status(400).json({ error: "position_seconds must be zero or more" });
+    }
+    if (duration !== null && (!isFinite(duration) || duration <= 0)) {
+      return res.status(400).json({ error: "duration_seconds must be more than zero" });
+    }
+
+    const vod = await query("SELECT id FROM vod_files WHERE id = $1", [req.params.id]);
+    if (vod.rows.length === 0) {
+      return res.status(404).json({ error: "VOD not found" });
+    }
+
+    await query(
+      `INSERT INTO vod_watch_progress (user_id, vod_id, position_seconds, duration_seconds, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (user_id, vod_id)
+       DO UPDATE SET position_seconds = $3, duration_seconds = COALESCE($4, vod_watch_progress.duration_seconds), updated_at = NOW()`,
+      [req.user!.id, req.params.id, position, duration]
+    );
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error saving watch progress:", error);
+    res.status(500).json({ error: "Failed to save watch progress" });
+  }
+});
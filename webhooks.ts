@@ -0,0 +1,444 @@
+import { Router } from "express";
+import * as crypto from "crypto";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import { query } from "./database";
+import { authMiddleware, AuthRequest } from "./auth";
+import { addOutboxListener, LIFECYCLE_EVENTS } from "./eventOutbox";
+import { checkPublicHost, isPublicAddress, publicLookup, urlHost } from "./privateAddresses";
+
+// Customer webhooks for stream lifecycle events. Each event from the outbox
+// is fanned out into webhook_deliveries, one row per matching subscription,
+// and a dispatcher POSTs them with retries and exponential backoff.
+//
+// Requests are signed: X-Webhook-Signature is "sha256=" + the hex HMAC of
+// "<X-Webhook-Timestamp>.<raw body>" keyed with the subscription secret.
+//
+// Customers choose the URL, so it must not reach anything on our side:
+// loopback, private and link-local destinations are refused when a URL is
+// saved and again for every address it resolves to when sending, which also
+// catches DNS that changes in between. Redirects aren't followed, and only
+// the status and a short error are kept, never the response body.
+const WEBHOOK_BATCH_SIZE = 20;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10);
+const WEBHOOK_BASE_BACKOFF_SECONDS = 30;
+const WEBHOOK_MAX_BACKOFF_SECONDS = 60 * 60;
+const WEBHOOK_LOG_RETENTION_DAYS = 30;
+const WEBHOOK_MAX_ERROR_LENGTH = 200;
+
+let dispatchTimer: ReturnType<typeof setInterval> | null = null;
+let dispatching = false;
+let lastCleanupAt = 0;
+
+export async function ensureWebhookSchema() {
+  await query(`
+    CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL,
+      url VARCHAR(2000) NOT NULL,
+      secret VARCHAR(64) NOT NULL,
+      events TEXT[] NOT NULL,
+      is_active BOOLEAN DEFAULT true,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `, []);
+  await query(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      subscription_id UUID REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+      event VARCHAR(50) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) DEFAULT 'pending',
+      attempts INTEGER DEFAULT 0,
+      next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      locked_until TIMESTAMP,
+      response_status INTEGER,
+      last_error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      delivered_at TIMESTAMP
+    )
+  `, []);
+  // Response bodies used to be logged and shown to customers
+  await query("ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS response_body", []);
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user ON webhook_subscriptions(user_id)",
+    []
+  );
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at)",
+    []
+  );
+  await query(
+    "CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at)",
+    []
+  );
+}
+
+function generateSecret(): string {
+  return "whsec_" + crypto.randomBytes(24).toString("hex");
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(timestamp + "." + body).digest("hex");
+}
+
+// Returns why the URL can't be used, or null if it can
+async function checkWebhookUrl(value: any): Promise<string | null> {
+  if (typeof value !== "string" || value.length > 2000) {
+    return "A valid http(s) URL is required";
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    return "A valid http(s) URL is required";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "A valid http(s) URL is required";
+  }
+
+  const host = await checkPublicHost(urlHost(url));
+  if (host === "private") {
+    return "Webhook URL must not point to a private address";
+  }
+  if (host === "unresolved") {
+    return "Webhook URL host could not be resolved";
+  }
+  return null;
+}
+
+// POST without following redirects, refusing private destinations. Resolves
+// with the response status; the body is read and thrown away.
+function postWebhook(value: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(value);
+    // IP literals never go through the lookup
+    const host = urlHost(url);
+    if (net.isIP(host) && !isPublicAddress(host)) {
+      return reject(new Error("Webhook URL points to a private address"));
+    }
+
+    const request = (url.protocol === "https:" ? https : http).request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    }, (response) => {
+      response.resume();
+      response.on("end", () => resolve(response.statusCode || 0));
+      response.on("error", reject);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// What customers receive. Streams are identified by id; the stream key is
+// left out since it is only the playback name, and ingest keys never leave
+// the keys API.
+function buildEventBody(event: string, payload: any, occurredAt: Date) {
+  return {
+    event,
+    occurredAt: occurredAt.toISOString(),
+    data: {
+      streamId: payload.streamId,
+      title: payload.title,
+      recordingEnabled: payload.recordingEnabled,
+      scheduledStart: payload.scheduledStart
+    }
+  };
+}
+
+// Outbox listener: queue a delivery for every subscription of the stream's
+// owner that wants this event
+async function enqueueDeliveries(event: string, payload: any, occurredAt: Date) {
+  if (!payload.userId) return;
+
+  await query(
+    `INSERT INTO webhook_deliveries (subscription_id, event, payload)
+     SELECT id, $2, $3 FROM webhook_subscriptions
+     WHERE user_id = $1 AND is_active = true AND $2 = ANY(events)`,
+    [payload.userId, event, buildEventBody(event, payload, occurredAt)]
+  );
+  kickWebhooks();
+}
+
+async function claimBatch() {
+  const result = await query(
+    `UPDATE webhook_deliveries d
+     SET status = 'sending', attempts = d.attempts + 1, locked_until = NOW() + make_interval(secs => $1)
+     FROM webhook_subscriptions s
+     WHERE s.id = d.subscription_id AND d.id IN (
+       SELECT id FROM webhook_deliveries
+       WHERE (status = 'pending' AND next_attempt_at <= NOW())
+          OR (status = 'sending' AND locked_until < NOW())
+       ORDER BY created_at
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING d.id, d.event, d.payload, d.attempts, s.url, s.secret`,
+    [Math.ceil(WEBHOOK_TIMEOUT_MS / 1000) * 2, WEBHOOK_BATCH_SIZE]
+  );
+  return result.rows;
+}
+
+async function sendDelivery(delivery: any) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    responseStatus = await postWebhook(delivery.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "StreamingPlatform-Webhooks/1.0",
+      "X-Webhook-Event": delivery.event,
+      "X-Webhook-Delivery": delivery.id,
+      "X-Webhook-Timestamp": timestamp,
+      "X-Webhook-Signature": signPayload(delivery.secret, timestamp, body)
+    }, body);
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = "HTTP " + responseStatus;
+    }
+  } catch (err) {
+    error = (err instanceof Error ? err.message : String(err)).substring(0, WEBHOOK_MAX_ERROR_LENGTH);
+  }
+
+  if (!error) {
+    await query(
+      `UPDATE webhook_deliveries
+       SET status = 'delivered', delivered_at = NOW(), locked_until = NULL, response_status = $2, last_error = NULL
+       WHERE id = $1`,
+      [delivery.id, responseStatus]
+    );
+    return;
+  }
+
+  if (delivery.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    console.log("Webhooks: Delivery " + delivery.id + " to " + delivery.url + " failed permanently: " + error);
+    await query(
+      `UPDATE webhook_deliveries
+       SET status = 'failed', locked_until = NULL, response_status = $2, last_error = $3
+       WHERE id = $1`,
+      [delivery.id, responseStatus, error]
+    );
+    return;
+  }
+
+  // 30s, 1m, 2m, 4m ... capped at an hour
+  const backoffSeconds = Math.min(
+    WEBHOOK_BASE_BACKOFF_SECONDS * Math.pow(2, delivery.attempts - 1),
+    WEBHOOK_MAX_BACKOFF_SECONDS
+  );
+  await query(
+    `UPDATE webhook_deliveries
+     SET status = 'pending', locked_until = NULL, response_status = $2, last_error = $3,
+         next_attempt_at = NOW() + make_interval(secs => $4)
+     WHERE id = $1`,
+    [delivery.id, responseStatus, error, backoffSeconds]
+  );
+}
+
+export async function dispatchWebhooks() {
+  if (dispatching) return;
+  dispatching = true;
+
+  try {
+    const deliveries = await claimBatch();
+    // One slow endpoint shouldn't hold up everyone else's
+    await Promise.all(deliveries.map(d => sendDelivery(d).catch(error => {
+      console.error("Webhooks: Error sending delivery " + d.id + ":", error);
+    })));
+
+    const now = Date.now();
+    if (now - lastCleanupAt > 60 * 60 * 1000) {
+      lastCleanupAt = now;
+      await query(
+        "DELETE FROM webhook_deliveries WHERE created_at < NOW() - make_interval(days => $1) AND status IN ('delivered', 'failed')",
+        [WEBHOOK_LOG_RETENTION_DAYS]
+      );
+    }
+  } catch (error) {
+    console.error("Webhook dispatch error:", error);
+  } finally {
+    dispatching = false;
+  }
+}
+
+function kickWebhooks() {
+  if (dispatchTimer) {
+    dispatchWebhooks();
+  }
+}
+
+export function startWebhookDispatcher(intervalMs: number = 5000) {
+  if (dispatchTimer) return;
+  addOutboxListener("webhooks", enqueueDeliveries);
+  console.log("Starting webhook dispatcher (interval: " + intervalMs + "ms)");
+  dispatchTimer = setInterval(dispatchWebhooks, intervalMs);
+}
+
+export function stopWebhookDispatcher() {
+  if (dispatchTimer) {
+    clearInterval(dispatchTimer);
+    dispatchTimer = null;
+  }
+}
+
+// ==================== WEBHOOK SUBSCRIPTIONS API ====================
+
+export const webhooksRouter = Router();
+
+async function getOwnedSubscription(id: string, req: AuthRequest) {
+  const result = req.user!.role === "admin"
+    ? await query("SELECT * FROM webhook_subscriptions WHERE id = $1", [id])
+    : await query("SELECT * FROM webhook_subscriptions WHERE id = $1 AND user_id = $2", [id, req.user!.id]);
+  return result.rows[0];
+}
+
+function parseEvents(value: any): string[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every(e => LIFECYCLE_EVENTS.includes(e))) return null;
+  return [...new Set<string>(value)];
+}
+
+// List the current user's subscriptions. Secrets are only shown on create.
+webhooksRouter.get("/", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const result = await query(
+      "SELECT id, url, events, is_active, created_at, updated_at FROM webhook_subscriptions WHERE user_id = $1 ORDER BY created_at",
+      [req.user!.id]
+    );
+    res.json({ subscriptions: result.rows, availableEvents: LIFECYCLE_EVENTS });
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    res.status(500).json({ error: "Failed to fetch webhooks" });
+  }
+});
+
+webhooksRouter.post("/", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { url } = req.body;
+    const events = parseEvents(req.body.events);
+    const urlError = await checkWebhookUrl(url);
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+    if (!events) {
+      return res.status(400).json({ error: "events must be a non-empty list of: " + LIFECYCLE_EVENTS.join(", ") });
+    }
+
+    const result = await query(
+      `INSERT INTO webhook_subscriptions (user_id, url, secret, events)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, url, secret, events, is_active, created_at`,
+      [req.user!.id, url, generateSecret(), events]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    res.status(500).json({ error: "Failed to create webhook" });
+  }
+});
+
+webhooksRouter.put("/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const subscription = await getOwnedSubscription(req.params.id, req);
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const { url, is_active } = req.body;
+    const urlError = url !== undefined ? await checkWebhookUrl(url) : null;
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+    const events = req.body.events !== undefined ? parseEvents(req.body.events) : subscription.events;
+    if (!events) {
+      return res.status(400).json({ error: "events must be a non-empty list of: " + LIFECYCLE_EVENTS.join(", ") });
+    }
+    if (is_active !== undefined && typeof is_active !== "boolean") {
+      return res.status(400).json({ error: "is_active must be true or false" });
+    }
+
+    const result = await query(
+      `UPDATE webhook_subscriptions
+       SET url = $2, events = $3, is_active = $4, updated_at = NOW()
+       WHERE id = $1
+       RETURNING id, url, events, is_active, created_at, updated_at`,
+      [subscription.id, url ?? subscription.url, events, is_active ?? subscription.is_active]
+    );
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error("Error updating webhook:", error);
+    res.status(500).json({ error: "Failed to update webhook" });
+  }
+});
+
+webhooksRouter.delete("/:id", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const subscription = await getOwnedSubscription(req.params.id, req);
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    await query("DELETE FROM webhook_subscriptions WHERE id = $1", [subscription.id]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    res.status(500).json({ error: "Failed to delete webhook" });
+  }
+});
+
+// Recent deliveries for one subscription, newest first
+webhooksRouter.get("/:id/deliveries", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const subscription = await getOwnedSubscription(req.params.id, req);
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const result = await query(
+      `SELECT id, event, payload, status, attempts, response_status, last_error,
+              next_attempt_at, created_at, delivered_at
+       FROM webhook_deliveries
+       WHERE subscription_id = $1
+       ORDER BY created_at DESC
+       LIMIT 100`,
+      [subscription.id]
+    );
+    res.json(result.rows);
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    res.status(500).json({ error: "Failed to fetch deliveries" });
+  }
+});
+
+// Queue a sample event so customers can check their endpoint and signature handling
+webhooksRouter.post("/:id/test", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const subscription = await getOwnedSubscription(req.params.id, req);
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const result = await query(
+      "INSERT INTO webhook_deliveries (subscription_id, event, payload) VALUES ($1, $2, $3) RETURNING id",
+      [subscription.id, "webhook:test", {
+        event: "webhook:test",
+        occurredAt: new Date().toISOString(),
+        data: { message: "This is a test event" }
+      }]
+    );
+    // Tests are sent from whichever replica got the request, not just the leader
+    dispatchWebhooks();
+    res.status(202).json({ deliveryId: result.rows[0].id });
+  } catch (error) {
+    console.error("Error sending test webhook:", error);
+    res.status(500).json({ error: "Failed to send test event" });
+  }
+});